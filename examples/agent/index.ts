@@ -98,7 +98,10 @@ function createAgentFlow(): Flow {
   decide.next(answer, 'answer');
   search.next(decide, 'decide');
 
-  return new Flow(decide);
+  // Answer with what was found instead of searching forever
+  const flow = new Flow(decide);
+  flow.setStepLimits({ maxVisits: 5, fallback: 'answer' });
+  return flow;
 }
 
 // Example usage
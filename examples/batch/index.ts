@@ -1,11 +1,20 @@
-import { BatchNode, Flow, SharedStore } from '../../src/index';
+import { BatchItemResult, BatchNode, Flow, SharedStore } from '../../src/index';
 
-// Mock translation function
+// Mock translation function; the Russian service is down
 function translateText(text: string, language: string): string {
+  if (language === 'Russian') {
+    throw new Error('Translation service unavailable');
+  }
   return `[${language}] ${text}`;
 }
 
 class TranslateTextNode extends BatchNode {
+  constructor(maxRetries: number) {
+    super(maxRetries);
+    // Keep the translations that succeed instead of failing the whole batch
+    this.setFailureMode('collect');
+  }
+
   prep(shared: SharedStore): Array<{ text: string; language: string }> {
     const text = shared.text || '(No text provided)';
     const languages = shared.languages || [
@@ -37,18 +46,28 @@ class TranslateTextNode extends BatchNode {
 
   post(
     shared: SharedStore,
-    prepRes: any,
-    execRes: Array<{ language: string; translation: string }>
+    prepRes: Array<{ text: string; language: string }>,
+    execRes: Array<BatchItemResult<{ language: string; translation: string }>>
   ): string {
     // Store translations in shared store
     shared.translations = {};
-
-    for (const result of execRes) {
-      shared.translations[result.language] = result.translation;
-      console.log(`✓ ${result.language} translation completed`);
-    }
-
-    console.log(`\nAll ${execRes.length} translations completed!`);
+    shared.failed = [];
+
+    execRes.forEach((result, i) => {
+      const { language } = prepRes[i];
+      if (result.status === 'fulfilled') {
+        shared.translations[language] = result.value.translation;
+        console.log(`✓ ${language} translation completed`);
+      } else {
+        shared.failed.push(language);
+        console.log(
+          `✗ ${language} translation failed: ${result.error.message}`
+        );
+      }
+    });
+
+    const { total, succeeded } = this.batchSummary!;
+    console.log(`\n${succeeded} of ${total} translations completed!`);
     return 'default';
   }
 }
@@ -57,7 +76,16 @@ class TranslateTextNode extends BatchNode {
 function main() {
   const shared: SharedStore = {
     text: 'ZeroGraph is a 100-line minimalist LLM framework',
-    languages: ['Chinese', 'Spanish', 'Japanese', 'French'],
+    languages: [
+      'Chinese',
+      'Spanish',
+      'Japanese',
+      'German',
+      'Russian',
+      'Portuguese',
+      'French',
+      'Korean',
+    ],
     translations: {},
   };
 
@@ -66,7 +94,7 @@ function main() {
   console.log(`Target languages: ${shared.languages.join(', ')}`);
   console.log();
 
-  const translateNode = new TranslateTextNode(3, 0); // max 3 retries, no wait
+  const translateNode = new TranslateTextNode(3); // max 3 attempts per language
   const flow = new Flow(translateNode);
 
   const startTime = Date.now();
@@ -78,6 +106,9 @@ function main() {
   for (const [lang, translation] of Object.entries(shared.translations)) {
     console.log(`${lang}: ${translation}`);
   }
+  if (shared.failed.length > 0) {
+    console.log(`Failed: ${shared.failed.join(', ')}`);
+  }
 
   console.log();
   console.log(`Total time: ${endTime - startTime}ms`);
@@ -0,0 +1,43 @@
+// ZeroGraph TypeScript - Partial failure handling for batches
+
+/**
+ * What a batch does when an item still fails after its retries:
+ * - failFast: throw, discarding the other items (the default)
+ * - collect: hand `post` a BatchItemResult for every item, in item order
+ * - skip: hand `post` the values of the items that succeeded
+ */
+export type BatchFailureMode = 'failFast' | 'collect' | 'skip';
+
+export type BatchItemResult<T> =
+  | { status: 'fulfilled'; value: T }
+  | { status: 'rejected'; error: Error };
+
+export interface BatchSummary {
+  total: number;
+  succeeded: number;
+  failed: { index: number; error: Error }[];
+}
+
+/** What batch nodes and flows share for handling failed items. */
+export interface BatchFailureHandling {
+  /** Outcome of the last batch, set before `post` runs. */
+  batchSummary?: BatchSummary;
+  /** Sets what happens to items that still fail; 'failFast' by default. */
+  setFailureMode(mode: BatchFailureMode): void;
+}
+
+export function summarizeBatch(
+  results: BatchItemResult<unknown>[]
+): BatchSummary {
+  const failed: BatchSummary['failed'] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      failed.push({ index, error: result.error });
+    }
+  });
+  return {
+    total: results.length,
+    succeeded: results.length - failed.length,
+    failed,
+  };
+}
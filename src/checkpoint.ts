@@ -0,0 +1,82 @@
+// ZeroGraph TypeScript - Durable checkpoints for Flow and AsyncFlow
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ActionType, SharedStore } from './core';
+
+/**
+ * Progress of a flow run, written after every node's `post`.
+ */
+export interface Checkpoint {
+  runId: string;
+  /** Node whose `post` just ran. */
+  nodeId: string;
+  /** Action returned by that node's `post`. */
+  action: ActionType;
+  /** Params the flow passed to its nodes. */
+  params: Record<string, any>;
+  /** JSON snapshot of the shared store after the node ran. */
+  shared: SharedStore;
+  timestamp: number;
+}
+
+/**
+ * Where checkpoints are kept. Methods may return promises, but only
+ * AsyncFlow can wait for them; a plain Flow needs a synchronous store.
+ */
+export interface CheckpointStore {
+  save(checkpoint: Checkpoint): void | Promise<void>;
+  load(runId: string): Checkpoint | undefined | Promise<Checkpoint | undefined>;
+  delete(runId: string): void | Promise<void>;
+}
+
+export function snapshot<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+export class MemoryCheckpointStore implements CheckpointStore {
+  private checkpoints = new Map<string, Checkpoint>();
+
+  save(checkpoint: Checkpoint): void {
+    this.checkpoints.set(checkpoint.runId, snapshot(checkpoint));
+  }
+
+  load(runId: string): Checkpoint | undefined {
+    return snapshot(this.checkpoints.get(runId));
+  }
+
+  delete(runId: string): void {
+    this.checkpoints.delete(runId);
+  }
+}
+
+/**
+ * Keeps one JSON file per run in `dir`.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  constructor(private dir: string) {}
+
+  private file(runId: string): string {
+    return path.join(this.dir, `${encodeURIComponent(runId)}.json`);
+  }
+
+  save(checkpoint: Checkpoint): void {
+    const file = this.file(checkpoint.runId);
+    fs.mkdirSync(this.dir, { recursive: true });
+    // Write then rename so a crash never leaves a half-written checkpoint
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(checkpoint, null, 2));
+    fs.renameSync(`${file}.tmp`, file);
+  }
+
+  load(runId: string): Checkpoint | undefined {
+    const file = this.file(runId);
+    if (!fs.existsSync(file)) {
+      return undefined;
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  }
+
+  delete(runId: string): void {
+    fs.rmSync(this.file(runId), { force: true });
+  }
+}
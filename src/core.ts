@@ -0,0 +1,2069 @@
+// ZeroGraph TypeScript - Nodes and flows
+
+import {
+  BatchFailureHandling,
+  BatchFailureMode,
+  BatchItemResult,
+  BatchSummary,
+  summarizeBatch,
+} from './batch';
+import { Checkpoint, CheckpointStore, snapshot } from './checkpoint';
+import {
+  FlowAbortedError,
+  FlowInterruptedError,
+  FlowValidationError,
+  BudgetExceededError,
+  MaxStepsExceededError,
+  NodeExecutionError,
+  PendingRequest,
+  TimeoutError,
+} from './errors';
+import { FlowEventName, FlowEvents, FlowListener, listenToRun } from './events';
+import type { TokenUsage } from './llm';
+import { FlowRunResult, recordRun } from './result';
+import { RetryPolicy, retryDelay, shouldRetry } from './retry';
+import { PricingTable, UsageBudget, UsageMeter } from './usage';
+import { validateFlow } from './validate';
+
+export type SharedStore = Record<string, any>;
+export type ActionType = string;
+
+export interface RunOptions {
+  /** Aborts the run when signalled. */
+  signal?: AbortSignal;
+  /** Deadline for the whole run in milliseconds (0 = no deadline). */
+  timeoutMs?: number;
+  /** Identifies the run in the flow's checkpoint store. */
+  runId?: string;
+}
+
+/**
+ * Combines the stores of isolated parallel branches into the parent store.
+ * Branches that failed are left out; `branches` and `params` stay aligned.
+ */
+export type BranchMerge<TShared extends object = SharedStore> = (
+  parent: TShared,
+  branches: TShared[],
+  params: Record<string, any>[]
+) => void | Promise<void>;
+
+/** Limits for parallel batch nodes and flows. */
+export interface ConcurrencyOptions {
+  /** Items processed at the same time (default: all of them). */
+  concurrency?: number;
+  /** Items started per second, across all workers (default: no limit). */
+  requestsPerSecond?: number;
+}
+
+/** Guards against flows that loop forever. */
+export interface StepLimits {
+  /** Nodes the flow may run per run, counted across parallel branches. */
+  maxSteps?: number;
+  /** Times any single node may run per run. */
+  maxVisits?: number;
+  /**
+   * Action to follow from the node that would exceed a limit, e.g. to a
+   * "give up" node, instead of throwing MaxStepsExceededError. Taken once
+   * per run; the node it leads to runs regardless of the limits.
+   */
+  fallback?: ActionType;
+}
+
+// Per-run state handed down to _orch/_orchAsync.
+interface OrchOptions {
+  /** Step of the flow run the orchestrated nodes belong to. */
+  step: number;
+  runId?: string;
+  resumeFrom?: Checkpoint;
+  /** Node to re-enter after an interrupt, as ids from this flow down. */
+  resumeAt?: { path: string[]; input: unknown };
+  signal?: AbortSignal;
+  guard?: StepGuard;
+}
+
+// Per-run state handed to _run/_runAsync, before the flow has its step. The
+// outermost flow may be handed a step reserved up front, so listeners can
+// be scoped to the run before it starts.
+type RunState = Omit<OrchOptions, 'step' | 'signal'> & { step?: number };
+
+// Steps taken by one orchestration, checked against the flow's StepLimits
+interface StepGuard {
+  steps: number;
+  visits: Map<BaseNode<any, any, any, any>, number>;
+  /** Ids of the last nodes run, for MaxStepsExceededError. */
+  recent: string[];
+  fellBack: boolean;
+  /** The fallback target, which runs regardless of the limits. */
+  exempt?: BaseNode<any, any, any, any>;
+}
+
+const RECENT_STEPS = 10;
+
+function newGuard(): StepGuard {
+  return { steps: 0, visits: new Map(), recent: [], fellBack: false };
+}
+
+// What a resume token carries
+interface ResumeState {
+  request: PendingRequest;
+  shared: Record<string, any>;
+  runId?: string;
+}
+
+// What a flow hands each node it runs: where the node sits in the graph and
+// how to report lifecycle events to the enclosing flows.
+interface NodeContext {
+  path: string[];
+  step: number;
+  parentStep: number;
+  emit: <E extends FlowEventName>(event: E, payload: FlowEvents[E]) => void;
+}
+
+let lastStep = 0;
+
+function nextStep(): number {
+  return ++lastStep;
+}
+
+function isPromise(value: unknown): value is Promise<unknown> {
+  return typeof (value as any)?.then === 'function';
+}
+
+// Runs body and reports its outcome to onEnd or onError, whether it returns
+// a value or a promise. The result (or error) is passed through unchanged.
+function observe<T>(
+  body: () => T,
+  onEnd: (result: Awaited<T>) => void,
+  onError: (error: unknown) => void
+): T {
+  let result: T;
+  try {
+    result = body();
+  } catch (e) {
+    onError(e);
+    throw e;
+  }
+  if (isPromise(result)) {
+    return result.then(
+      value => {
+        onEnd(value as Awaited<T>);
+        return value;
+      },
+      e => {
+        onError(e);
+        throw e;
+      }
+    ) as T;
+  }
+  onEnd(result as Awaited<T>);
+  return result;
+}
+
+// Nodes are cloned per step so a run never mutates the wired graph.
+function cloneNode<T extends object>(node: T): T {
+  return Object.assign(Object.create(Object.getPrototypeOf(node)), node);
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new Error('Aborted');
+}
+
+// Derives a signal that aborts with the parent, or with a TimeoutError once
+// timeoutMs elapses, naming nodeId if given. Call dispose() when done to
+// release the timer/listener.
+function linkSignal(
+  parent: AbortSignal | undefined,
+  timeoutMs: number = 0,
+  nodeId?: string
+): {
+  signal: AbortSignal;
+  abort: (reason: unknown) => void;
+  dispose: () => void;
+} {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(abortReason(parent!));
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  if (parent?.aborted) {
+    onAbort();
+  } else {
+    parent?.addEventListener('abort', onAbort, { once: true });
+    if (timeoutMs > 0) {
+      timer = setTimeout(
+        () => controller.abort(new TimeoutError(timeoutMs, nodeId)),
+        timeoutMs
+      );
+    }
+  }
+
+  return {
+    signal: controller.signal,
+    abort: reason => controller.abort(reason),
+    dispose: () => {
+      if (timer) clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+// Settles with the promise, or rejects with the abort reason as soon as the
+// signal fires. The underlying work is not cancelled unless it honours the
+// signal itself.
+function raceSignal<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    promise.catch(() => {});
+    return Promise.reject(abortReason(signal));
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Runs fn over items with a bounded number of workers, keeping results in
+// item order. Once an item fails no new items are started.
+async function mapPool<T, R>(
+  items: T[],
+  fn: (item: T) => Promise<R>,
+  limits: ConcurrencyOptions,
+  signal: AbortSignal
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  const interval = limits.requestsPerSecond
+    ? 1000 / limits.requestsPerSecond
+    : 0;
+  let nextItem = 0;
+  let nextStart = Date.now();
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && nextItem < items.length) {
+      const i = nextItem++;
+      if (interval > 0) {
+        const now = Date.now();
+        const at = Math.max(now, nextStart);
+        nextStart = at + interval;
+        if (at > now) {
+          await sleep(at - now, signal);
+        }
+      }
+      try {
+        results[i] = await fn(items[i]);
+      } catch (e) {
+        failed = true;
+        throw e;
+      }
+    }
+  };
+
+  const workers = Math.min(limits.concurrency ?? Infinity, items.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+// A pool without workers would skip every item and report them all done
+function checkLimits(limits: ConcurrencyOptions): ConcurrencyOptions {
+  const { concurrency, requestsPerSecond } = limits;
+  if (
+    concurrency !== undefined &&
+    !(Number.isInteger(concurrency) && concurrency > 0)
+  ) {
+    throw new Error(
+      `concurrency must be a positive integer, got ${concurrency}`
+    );
+  }
+  if (requestsPerSecond !== undefined && !(requestsPerSecond > 0)) {
+    throw new Error(
+      `requestsPerSecond must be positive, got ${requestsPerSecond}`
+    );
+  }
+  return limits;
+}
+
+// Runs one batch item, rethrowing failures only in failFast mode
+function settle<T>(mode: BatchFailureMode, run: () => T): BatchItemResult<T> {
+  try {
+    return { status: 'fulfilled', value: run() };
+  } catch (e) {
+    if (mode === 'failFast' || e instanceof FlowInterruptedError) {
+      throw e;
+    }
+    return { status: 'rejected', error: e as Error };
+  }
+}
+
+async function settleAsync<T>(
+  mode: BatchFailureMode,
+  run: () => Promise<T>,
+  signal: AbortSignal
+): Promise<BatchItemResult<T>> {
+  try {
+    return { status: 'fulfilled', value: await run() };
+  } catch (e) {
+    // An aborted or interrupted run is never a per-item failure
+    if (
+      mode === 'failFast' ||
+      signal.aborted ||
+      e instanceof FlowInterruptedError
+    ) {
+      throw e;
+    }
+    return { status: 'rejected', error: e as Error };
+  }
+}
+
+// What post receives for settled items: every result when collecting, the
+// values of the items that succeeded otherwise
+function batchOutput<T>(
+  mode: BatchFailureMode,
+  results: BatchItemResult<T>[]
+): T[] | BatchItemResult<T>[] {
+  if (mode === 'collect') {
+    return results;
+  }
+  return results.flatMap(result =>
+    result.status === 'fulfilled' ? [result.value] : []
+  );
+}
+
+// Batch flows hand post their sub-flows' last actions only when failures are
+// tolerated; in failFast mode post keeps receiving null
+function flowBatchOutput(
+  mode: BatchFailureMode,
+  results: BatchItemResult<ActionType>[]
+): ActionType[] | BatchItemResult<ActionType>[] | null {
+  return mode === 'failFast' ? null : batchOutput(mode, results);
+}
+
+// Resolves with the indexes of the first `need` promises to fulfil, in
+// promise order, or rejects once too many have failed for that to happen.
+function quorum(promises: Promise<unknown>[], need: number): Promise<number[]> {
+  return new Promise((resolve, reject) => {
+    const done: number[] = [];
+    let failed = 0;
+    if (need === 0) {
+      resolve([]);
+    }
+    promises.forEach((promise, i) =>
+      promise.then(
+        () => {
+          done.push(i);
+          if (done.length === need) {
+            resolve([...done].sort((a, b) => a - b));
+          }
+        },
+        error => {
+          if (++failed > promises.length - need) {
+            reject(error);
+          }
+        }
+      )
+    );
+  });
+}
+
+function encodeToken(state: ResumeState): string {
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+function decodeToken(token: string): ResumeState {
+  try {
+    const state = JSON.parse(Buffer.from(token, 'base64url').toString());
+    if (Array.isArray(state.request?.path)) {
+      return state;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error('Invalid resume token');
+}
+
+// Blocks the thread without spinning the CPU, for the synchronous path
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+// An interrupted item could not be resumed on its own, so an interrupt
+// inside a batch flow fails the run, as it does inside Parallel branches.
+function batchInterrupt(error: unknown): unknown {
+  return error instanceof FlowInterruptedError
+    ? new Error(
+        `'${error.request.nodeId}' cannot interrupt inside a batch flow`
+      )
+    : error;
+}
+
+// A checkpoint records one node of one walk, which batch flows cannot be
+// resumed from, so they refuse runs that would be checkpointed.
+function refuseCheckpoints(
+  flow: { id: string },
+  run: { runId?: string }
+): void {
+  if (run.runId !== undefined) {
+    throw new Error(
+      `Batch flows cannot be checkpointed. Run '${flow.id}' without a runId.`
+    );
+  }
+}
+
+// next() may omit the action only when the source node can return 'default'.
+// Any node may take an 'error' edge, which flows follow when it throws.
+type ActionArgs<TAction extends string> = 'default' extends TAction
+  ? [action?: TAction | 'error']
+  : [action: TAction | 'error'];
+
+class ConditionalTransition<TShared extends object> {
+  constructor(
+    public src: BaseNode<TShared, any, any, any>,
+    public action: ActionType
+  ) {}
+
+  next<N extends BaseNode<TShared, any, any, any>>(target: N): N {
+    return this.src.next(target, this.action);
+  }
+}
+
+/**
+ * Type parameters, shared by every node class:
+ * - TShared: shape of the shared store the node reads and writes
+ * - TPrep: result of `prep`, handed to `post`
+ * - TExec: result of the exec phase, handed to `post`
+ * - TAction: actions `post` may return, and so the actions `next` accepts
+ * - TItem / TResult: what a single `exec` call consumes and produces. They
+ *   equal TPrep / TExec except for batch nodes, which exec once per item.
+ */
+export abstract class BaseNode<
+  TShared extends object = SharedStore,
+  TPrep = any,
+  TExec = any,
+  TAction extends string = ActionType,
+  TItem = TPrep,
+  TResult = TExec,
+> {
+  protected params: Record<string, any> = {};
+  public successors: Record<ActionType, BaseNode<TShared, any, any, any>> = {};
+  /** Label used in logs, errors and diagrams; defaults to the class name. */
+  public name: string = this.constructor.name;
+  private _id?: string;
+  // Derived by the flow that last listed this node, when no id is set
+  private _derivedId?: string;
+  // Nodes linking here, so validation can find nodes that are never reached
+  private _sources: BaseNode<any, any, any, any>[] = [];
+  // Set by the flow when it re-enters this node after an interrupt
+  private _resumed?: { input: unknown };
+  protected _ctx?: NodeContext;
+
+  /**
+   * Actions `post` may return. Optional; when declared, `validateFlow`
+   * reports actions without a successor and successors never taken.
+   */
+  static actions?: readonly ActionType[];
+
+  /**
+   * Identifies the node within a flow. Unless set explicitly, it is derived
+   * from `name` whenever a flow lists its nodes, with a counter suffix
+   * (`Name_2`) if another node of that flow has the name. Only explicit ids
+   * must be unique.
+   */
+  get id(): string {
+    return this._id ?? this._derivedId ?? this.name;
+  }
+
+  set id(id: string) {
+    this._id = id;
+  }
+
+  setParams(params: Record<string, any>): void {
+    this.params = params;
+  }
+
+  next<N extends BaseNode<TShared, any, any, any>>(
+    node: N,
+    ...[action]: ActionArgs<TAction>
+  ): N {
+    return this._next(node, action || 'default');
+  }
+
+  protected _next<N extends BaseNode<TShared, any, any, any>>(
+    node: N,
+    action: ActionType
+  ): N {
+    if (action in this.successors) {
+      console.warn(`Overwriting successor for action '${action}'`);
+    }
+    this.successors[action] = node;
+    if (!node._sources.includes(this)) {
+      node._sources.push(this);
+    }
+    return node;
+  }
+
+  prep(shared: TShared): TPrep {
+    return undefined as TPrep;
+  }
+
+  /** `attempt` counts from 1 and grows with every retry. */
+  exec(prepRes: TItem, attempt: number): TResult {
+    return undefined as TResult;
+  }
+
+  post(shared: TShared, prepRes: TPrep, execRes: TExec): TAction {
+    return 'default' as TAction;
+  }
+
+  protected _exec(prepRes: any): any {
+    return this.exec(prepRes, 1);
+  }
+
+  protected _run(shared: TShared): TAction {
+    const start = Date.now();
+    const p = this.prep(shared);
+    this._emit('prepDone', { durationMs: Date.now() - start });
+    const e = this._exec(p);
+    return this.post(shared, p, e);
+  }
+
+  // Reports a lifecycle event about this node to the flows running it.
+  protected _emit<
+    E extends 'prepDone' | 'execRetry' | 'execFallback' | 'chunk' | 'usage',
+  >(
+    event: E,
+    payload: Omit<
+      FlowEvents[E],
+      'path' | 'nodeId' | 'step' | 'parentStep' | 'timestamp'
+    >
+  ): void {
+    this._ctx?.emit(event, {
+      path: this._ctx.path,
+      nodeId: this.id,
+      step: this._ctx.step,
+      parentStep: this._ctx.parentStep,
+      timestamp: Date.now(),
+      ...payload,
+    } as FlowEvents[E]);
+  }
+  /**
+   * Reports the tokens of a model call to the enclosing flows, for run
+   * results, tracing and budgets. Does nothing without `usage`.
+   */
+  protected reportUsage(usage: TokenUsage | undefined, model?: string): void {
+    if (usage) {
+      this._emit('usage', { ...usage, ...(model ? { model } : {}) });
+    }
+  }
+
+  run(shared: TShared): TAction {
+    if (Object.keys(this.successors).length > 0) {
+      console.warn("Node won't run successors. Use Flow.");
+    }
+    return this._run(shared);
+  }
+
+  /**
+   * Pauses the enclosing AsyncFlow to ask the caller for input: throws a
+   * FlowInterruptedError carrying `payload`. When the flow is resumed with
+   * `resumeWith`, this node runs again from `prep` and the same call returns
+   * the caller's input instead.
+   */
+  protected interrupt<T = unknown>(payload: unknown): T {
+    if (this._resumed) {
+      return this._resumed.input as T;
+    }
+    throw new FlowInterruptedError({
+      nodeId: this.id,
+      path: this._ctx?.path ?? [this.id],
+      payload,
+    });
+  }
+
+  // Operator overloading equivalents
+  pipe<N extends BaseNode<TShared, any, any, any>>(other: N): N {
+    return this._next(other, 'default');
+  }
+
+  action(action: TAction): ConditionalTransition<TShared> {
+    return new ConditionalTransition(this, action);
+  }
+}
+
+export class Node<
+  TShared extends object = SharedStore,
+  TPrep = any,
+  TExec = any,
+  TAction extends string = ActionType,
+  TItem = TPrep,
+  TResult = TExec,
+> extends BaseNode<TShared, TPrep, TExec, TAction, TItem, TResult> {
+  protected maxRetries: number;
+  protected wait: number;
+  /** Backoff, jitter, retryOn and budget; attempts and delay live above. */
+  protected retryPolicy: RetryPolicy;
+  protected curRetry: number = 0;
+  // Set when exec's retries and fallback are exhausted, for error routing
+  protected _failure?: { attempts: number; prepRes: unknown };
+
+  /**
+   * Takes either the number of attempts and a fixed delay in seconds, or a
+   * RetryPolicy.
+   */
+  constructor(retry: number | RetryPolicy = 1, wait: number = 0) {
+    super();
+    if (typeof retry === 'number') {
+      this.maxRetries = retry;
+      this.wait = wait;
+      this.retryPolicy = {};
+    } else {
+      this.maxRetries = retry.maxAttempts ?? 1;
+      this.wait = (retry.delayMs ?? 0) / 1000;
+      this.retryPolicy = retry;
+    }
+  }
+
+  protected get policy(): RetryPolicy {
+    return {
+      ...this.retryPolicy,
+      maxAttempts: this.maxRetries,
+      delayMs: this.wait * 1000,
+    };
+  }
+
+  execFallback(prepRes: TItem, exc: Error): TResult {
+    throw exc;
+  }
+
+  protected _exec(prepRes: any): any {
+    const policy = this.policy;
+    for (this.curRetry = 0; ; this.curRetry++) {
+      const attempt = this.curRetry + 1;
+      try {
+        return this.exec(prepRes, attempt);
+      } catch (e) {
+        if (e instanceof FlowInterruptedError) {
+          throw e;
+        }
+        if (!shouldRetry(policy, e as Error, attempt)) {
+          this._emit('execFallback', { attempts: attempt, error: e as Error });
+          try {
+            return this.execFallback(prepRes, e as Error);
+          } catch (f) {
+            this._failure = { attempts: attempt, prepRes };
+            throw f;
+          }
+        }
+        this._emit('execRetry', { attempt, error: e as Error });
+        const delay = retryDelay(policy, attempt);
+        if (delay > 0) {
+          sleepSync(delay);
+        }
+      }
+    }
+  }
+}
+
+export class BatchNode<
+    TShared extends object = SharedStore,
+    TItem = any,
+    TResult = any,
+    TAction extends string = ActionType,
+  >
+  extends Node<TShared, TItem[], TResult[], TAction, TItem, TResult>
+  implements BatchFailureHandling
+{
+  protected failureMode: BatchFailureMode = 'failFast';
+  batchSummary?: BatchSummary;
+
+  setFailureMode(mode: BatchFailureMode): void {
+    this.failureMode = mode;
+  }
+
+  protected _exec(items: any[]): any[] {
+    const results = (items || []).map(item =>
+      settle(this.failureMode, () => super._exec(item))
+    );
+    this.batchSummary = summarizeBatch(results);
+    return batchOutput(this.failureMode, results);
+  }
+}
+
+export class Flow<
+  TShared extends object = SharedStore,
+  TAction extends string = ActionType,
+  TPrep = any,
+> extends BaseNode<TShared, TPrep, any, TAction> {
+  protected startNode: BaseNode<TShared, any, any, any> | null;
+  protected checkpointStore: CheckpointStore | null = null;
+  protected strict = false;
+  protected stepLimits: StepLimits = {};
+  protected pricing: PricingTable = {};
+  private listeners: Partial<Record<FlowEventName, FlowListener<any>[]>> = {};
+
+  constructor(start: BaseNode<TShared, any, any, any> | null = null) {
+    super();
+    this.startNode = start;
+  }
+
+  start<N extends BaseNode<TShared, any, any, any>>(start: N): N {
+    this.startNode = start;
+    return start;
+  }
+
+  /**
+   * Checkpoints are written to the store after every node's `post` for runs
+   * started with a `runId`, and read back by `resume`.
+   */
+  setCheckpointStore(store: CheckpointStore | null): void {
+    this.checkpointStore = store;
+  }
+
+  /**
+   * In strict mode the flow validates its graph before every run or resume
+   * and throws a FlowValidationError if `validateFlow` reports anything.
+   */
+  setStrict(strict: boolean = true): void {
+    this.strict = strict;
+  }
+
+  /** Prices models for the cost in run results and budgets. */
+  setPricing(pricing: PricingTable): void {
+    this.pricing = pricing;
+  }
+
+  /** Limits how long a single run may loop; see StepLimits. */
+  setStepLimits(limits: StepLimits): void {
+    this.stepLimits = limits;
+  }
+
+  protected assertValid(): void {
+    if (this.strict) {
+      const diagnostics = validateFlow(this);
+      if (diagnostics.length > 0) {
+        throw new FlowValidationError(diagnostics);
+      }
+    }
+  }
+
+  // A plain Flow cannot wait for a store that answers with promises. The
+  // store is asked before a checkpointed run, so it fails before any node.
+  protected assertSyncStore(runId: string | undefined): void {
+    const probe =
+      runId !== undefined ? this.checkpointStore?.load(runId) : undefined;
+    if (isPromise(probe)) {
+      probe.catch(() => {});
+      throw new Error('Checkpoint store is asynchronous. Use AsyncFlow.');
+    }
+  }
+
+  /**
+   * Subscribes to lifecycle events of this flow, including those of nested
+   * flows it runs.
+   */
+  on<E extends FlowEventName>(event: E, listener: FlowListener<E>): this {
+    this.listeners[event] = [...(this.listeners[event] || []), listener];
+    return this;
+  }
+
+  off<E extends FlowEventName>(event: E, listener: FlowListener<E>): this {
+    this.listeners[event] = (this.listeners[event] || []).filter(
+      l => l !== listener
+    );
+    return this;
+  }
+
+  // Delivers an event to this flow's listeners, then to the enclosing flow.
+  protected dispatch<E extends FlowEventName>(
+    event: E,
+    payload: FlowEvents[E]
+  ): void {
+    for (const listener of this.listeners[event] || []) {
+      listener(payload);
+    }
+    this._ctx?.emit(event, payload);
+  }
+
+  // Runs the flow body between flowStart and flowEnd/flowError. The body
+  // receives the step its nodes report as their parent: the step of the
+  // node this flow runs as, a reserved `root` step, or a new one.
+  protected trackFlow<T extends ActionType | Promise<ActionType>>(
+    body: (step: number) => T,
+    root?: number
+  ): T {
+    const path = this._ctx?.path ?? [];
+    const step = this._ctx?.step ?? root ?? nextStep();
+    const start = Date.now();
+    const done = () => ({
+      path,
+      step,
+      timestamp: Date.now(),
+      durationMs: Date.now() - start,
+    });
+
+    this.dispatch('flowStart', { path, step, timestamp: start });
+    return observe(
+      () => body(step),
+      action => this.dispatch('flowEnd', { ...done(), action }),
+      error => this.dispatch('flowError', { ...done(), error: error as Error })
+    );
+  }
+
+  // Clones a node for one step of the run and hands it the run's params and
+  // a context pointing back at this flow.
+  protected prepareStep(
+    node: BaseNode<TShared, any, any, any>,
+    params: Record<string, any>,
+    run: OrchOptions
+  ): BaseNode<TShared, any, any, any> {
+    const curr = cloneNode(node);
+    // The flow's params are layered over the node's own
+    curr.setParams({ ...(node as any).params, ...params });
+    (curr as any)._ctx = {
+      path: [...(this._ctx?.path ?? []), node.id],
+      step: nextStep(),
+      parentStep: run.step,
+      emit: (event, payload) => this.dispatch(event, payload),
+    } as NodeContext;
+    return curr;
+  }
+
+  // Runs one node between nodeStart and nodeEnd/nodeError.
+  protected runStep<T extends ActionType | Promise<ActionType>>(
+    curr: BaseNode<TShared, any, any, any>,
+    body: () => T
+  ): T {
+    const { path, step, parentStep } = (curr as any)._ctx as NodeContext;
+    const node = { path, nodeId: curr.id, step, parentStep };
+    const start = Date.now();
+    const done = () => ({
+      ...node,
+      timestamp: Date.now(),
+      durationMs: Date.now() - start,
+    });
+
+    this.dispatch('nodeStart', { ...node, timestamp: start });
+    return observe(
+      body,
+      action => this.dispatch('nodeEnd', { ...done(), action }),
+      error => this.dispatch('nodeError', { ...done(), error: error as Error })
+    );
+  }
+
+  // Looks up the successor for the action and reports the transition.
+  protected advance(
+    curr: BaseNode<TShared, any, any, any>,
+    action: ActionType,
+    run: OrchOptions
+  ): BaseNode<TShared, any, any, any> | null {
+    const next = this.getNextNode(curr, action);
+    if (next) {
+      this.transition(curr, next, action, run);
+    }
+    return next;
+  }
+
+  protected transition(
+    from: BaseNode<TShared, any, any, any>,
+    to: BaseNode<TShared, any, any, any>,
+    action: ActionType,
+    run: OrchOptions
+  ): void {
+    this.dispatch('transition', {
+      path: this._ctx?.path ?? [],
+      step: run.step,
+      timestamp: Date.now(),
+      from: from.id,
+      to: to.id,
+      action,
+    });
+  }
+
+  run(shared: TShared, options: Pick<RunOptions, 'runId'> = {}): TAction {
+    if (Object.keys(this.successors).length > 0) {
+      console.warn("Node won't run successors. Use Flow.");
+    }
+    return this.runChecked(shared, { runId: options.runId });
+  }
+
+  /**
+   * Runs the flow like `run` and reports what happened: the nodes visited
+   * with their actions, durations and retries, and the exec errors that
+   * fallbacks recovered from.
+   */
+  execute(
+    shared: TShared,
+    options: Pick<RunOptions, 'runId'> = {}
+  ): FlowRunResult<TAction> {
+    // The run's step is reserved so other runs of this flow are left out
+    const step = nextStep();
+    const recorder = recordRun(this, step, this.pricing);
+    try {
+      return recorder.finish(
+        this.runChecked(shared, { runId: options.runId, step })
+      );
+    } finally {
+      recorder.dispose();
+    }
+  }
+
+  // Runs this flow as the outermost one, once the graph and store pass.
+  private runChecked(shared: TShared, run: RunState): TAction {
+    this.assertValid();
+    this.assertSyncStore(run.runId);
+    return this._run(shared, run);
+  }
+
+  /**
+   * Continues a checkpointed run after the last node that completed. The
+   * shared store snapshot is restored into `shared`.
+   */
+  resume(runId: string, shared: TShared = {} as TShared): TAction {
+    const checkpoint = this.checkpointStore?.load(runId);
+    if (isPromise(checkpoint)) {
+      throw new Error('Checkpoint store is asynchronous. Use resumeAsync.');
+    }
+    if (!checkpoint) {
+      throw new Error(`No checkpoint found for run '${runId}'`);
+    }
+    this.assertValid();
+    Object.assign(shared, checkpoint.shared);
+    return this._run(shared, { runId, resumeFrom: checkpoint });
+  }
+
+  protected getNextNode(
+    curr: BaseNode<TShared, any, any, any>,
+    action: ActionType | null
+  ): BaseNode<TShared, any, any, any> | null {
+    const next = curr.successors[action || 'default'];
+    if (!next && Object.keys(curr.successors).length > 0) {
+      console.warn(
+        `Flow ends: '${action}' not found in [${Object.keys(curr.successors).join(', ')}]`
+      );
+    }
+    return next || null;
+  }
+
+  /**
+   * All nodes reachable from the start node, in breadth-first order. Nodes
+   * without an explicit id get one derived anew for this flow, so every id
+   * is unique within it.
+   */
+  nodes(): BaseNode<TShared, any, any, any>[] {
+    const nodes: BaseNode<TShared, any, any, any>[] = [];
+    const queue = this.startNode ? [this.startNode] : [];
+    while (queue.length > 0) {
+      const node = queue.shift()!;
+      if (!nodes.includes(node)) {
+        nodes.push(node);
+        // Skips successors that are not nodes; validateFlow reports them
+        queue.push(...Object.values(node.successors).filter(Boolean));
+      }
+    }
+
+    // Explicit ids are claimed first so derived ids never collide with them
+    const taken = new Set<string>();
+    for (const node of nodes as any[]) {
+      if (node._id !== undefined) {
+        if (taken.has(node._id)) {
+          throw new Error(`Duplicate node id '${node._id}'`);
+        }
+        taken.add(node._id);
+      }
+    }
+    for (const node of nodes as any[]) {
+      if (node._id === undefined) {
+        let id = node.name;
+        for (let n = 2; taken.has(id); n++) {
+          id = `${node.name}_${n}`;
+        }
+        node._derivedId = id;
+        taken.add(id);
+      }
+    }
+    return nodes;
+  }
+
+  getNode(id: string): BaseNode<TShared, any, any, any> | undefined {
+    return this.nodes().find(node => node.id === id);
+  }
+
+  // Where orchestration begins: the start node, or the successor of the
+  // checkpointed node when resuming.
+  protected entry(
+    params: Record<string, any> | undefined,
+    run: OrchOptions
+  ): {
+    node: BaseNode<TShared, any, any, any> | null;
+    action: ActionType;
+    params: Record<string, any>;
+  } {
+    const nodes = this.nodes();
+    const checkpoint = run.resumeFrom;
+    if (run.resumeAt) {
+      const [id] = run.resumeAt.path;
+      const node = nodes.find(n => n.id === id);
+      if (!node) {
+        throw new Error(`Interrupted node '${id}' not in flow`);
+      }
+      return { node, action: 'default', params: params || { ...this.params } };
+    }
+    if (!checkpoint) {
+      return {
+        node: this.startNode,
+        action: 'default',
+        params: params || { ...this.params },
+      };
+    }
+
+    const node = nodes.find(n => n.id === checkpoint.nodeId);
+    if (!node) {
+      throw new Error(`Checkpoint node '${checkpoint.nodeId}' not in flow`);
+    }
+    return {
+      node: this.getNextNode(node, checkpoint.action),
+      action: checkpoint.action,
+      params: checkpoint.params,
+    };
+  }
+
+  // Follows the node's 'error' edge, if it has one, with a
+  // NodeExecutionError in `shared.error` for the handler. Aborts and
+  // interrupts always propagate.
+  protected routeError(
+    curr: BaseNode<TShared, any, any, any>,
+    error: unknown,
+    shared: TShared
+  ): ActionType {
+    if (
+      !curr.successors.error ||
+      error instanceof FlowAbortedError ||
+      error instanceof FlowInterruptedError
+    ) {
+      throw error;
+    }
+    const failure = (curr as any)._failure ?? { attempts: 0 };
+    (shared as any).error = new NodeExecutionError(
+      curr.id,
+      failure.attempts,
+      failure.prepRes,
+      error
+    );
+    return 'error';
+  }
+
+  // Counts a step against the step limits. Returns the node to run: `node`
+  // itself or, once a limit is hit, its successor for the fallback action.
+  protected guardStep(
+    node: BaseNode<TShared, any, any, any>,
+    run: OrchOptions
+  ): BaseNode<TShared, any, any, any> {
+    const guard = run.guard;
+    if (!guard) {
+      return node;
+    }
+    const { maxSteps, maxVisits, fallback } = this.stepLimits;
+    const visits = guard.visits.get(node) ?? 0;
+    if (node === guard.exempt) {
+      guard.exempt = undefined;
+    } else {
+      const limit =
+        maxSteps !== undefined && guard.steps >= maxSteps
+          ? { name: 'maxSteps' as const, max: maxSteps }
+          : maxVisits !== undefined && visits >= maxVisits
+            ? { name: 'maxVisits' as const, max: maxVisits }
+            : null;
+      if (limit) {
+        const target =
+          fallback !== undefined && !guard.fellBack
+            ? node.successors[fallback]
+            : undefined;
+        if (!target) {
+          throw new MaxStepsExceededError(
+            node.id,
+            limit.name,
+            limit.max,
+            guard.recent
+          );
+        }
+        guard.fellBack = true;
+        guard.exempt = target;
+        this.transition(node, target, fallback!, run);
+        return this.guardStep(target, run);
+      }
+    }
+    guard.steps++;
+    guard.visits.set(node, visits + 1);
+    guard.recent = [...guard.recent, node.id].slice(-RECENT_STEPS);
+    return node;
+  }
+
+  protected checkpoint(
+    node: BaseNode<TShared, any, any, any>,
+    action: ActionType,
+    params: Record<string, any>,
+    shared: TShared,
+    run: OrchOptions
+  ): void | Promise<void> {
+    if (!this.checkpointStore || !run.runId) {
+      return;
+    }
+    return this.checkpointStore.save({
+      runId: run.runId,
+      nodeId: node.id,
+      action,
+      params,
+      shared: snapshot(shared),
+      timestamp: Date.now(),
+    });
+  }
+
+  // Only the first node of a resumed walk is re-entered: a nested flow gets
+  // the rest of the interrupted path, the interrupted node its input.
+  protected resumeStep(
+    curr: BaseNode<TShared, any, any, any>,
+    resumeAt: OrchOptions['resumeAt']
+  ): RunState {
+    if (!resumeAt) {
+      return {};
+    }
+    const [, ...path] = resumeAt.path;
+    if (path.length > 0) {
+      return { resumeAt: { path, input: resumeAt.input } };
+    }
+    (curr as any)._resumed = { input: resumeAt.input };
+    return {};
+  }
+
+  protected _orch(
+    shared: TShared,
+    params: Record<string, any> | undefined,
+    run: OrchOptions
+  ): ActionType {
+    const entry = this.entry(params, run);
+    let node = entry.node;
+    let lastAction = entry.action;
+    let resumeAt = run.resumeAt;
+    run = { ...run, guard: newGuard() };
+
+    while (node) {
+      node = this.guardStep(node, run);
+      const curr = this.prepareStep(node, entry.params, run);
+      const nested = this.resumeStep(curr, resumeAt);
+      resumeAt = undefined;
+      try {
+        lastAction = this.runStep(curr, () =>
+          (curr as any)._run(shared, nested)
+        );
+      } catch (e) {
+        lastAction = this.routeError(curr, e, shared);
+      }
+      const saved = this.checkpoint(
+        node,
+        lastAction,
+        entry.params,
+        shared,
+        run
+      );
+      if (isPromise(saved)) {
+        saved.catch(() => {});
+        throw new Error('Checkpoint store is asynchronous. Use AsyncFlow.');
+      }
+      node = this.advance(curr, lastAction, run);
+    }
+    return lastAction;
+  }
+
+  protected _run(shared: TShared, run: RunState = {}): TAction {
+    return this.trackFlow(step => {
+      const p = this.prep(shared);
+      const o = this._orch(shared, undefined, { ...run, step });
+      return this.post(shared, p, o);
+    }, run.step);
+  }
+
+  post(shared: TShared, prepRes: TPrep, execRes: any): TAction {
+    return execRes;
+  }
+}
+
+export class BatchFlow<
+    TShared extends object = SharedStore,
+    TAction extends string = ActionType,
+  >
+  extends Flow<TShared, TAction, Record<string, any>[]>
+  implements BatchFailureHandling
+{
+  protected failureMode: BatchFailureMode = 'failFast';
+  batchSummary?: BatchSummary;
+
+  setFailureMode(mode: BatchFailureMode): void {
+    this.failureMode = mode;
+  }
+
+  protected _run(shared: TShared, run: RunState = {}): TAction {
+    refuseCheckpoints(this, run);
+    return this.trackFlow(step => {
+      const pr = this.prep(shared) || [];
+      let results: BatchItemResult<ActionType>[];
+      try {
+        results = pr.map(bp =>
+          settle(this.failureMode, () =>
+            this._orch(shared, { ...this.params, ...bp }, { step })
+          )
+        );
+      } catch (e) {
+        throw batchInterrupt(e);
+      }
+      this.batchSummary = summarizeBatch(results);
+      return this.post(shared, pr, flowBatchOutput(this.failureMode, results));
+    }, run.step);
+  }
+}
+
+export class AsyncNode<
+  TShared extends object = SharedStore,
+  TPrep = any,
+  TExec = any,
+  TAction extends string = ActionType,
+  TItem = TPrep,
+  TResult = TExec,
+> extends Node<TShared, TPrep, TExec, TAction, TItem, TResult> {
+  protected timeoutMs: number;
+
+  constructor(
+    retry: number | RetryPolicy = 1,
+    wait: number = 0,
+    timeoutMs: number = 0
+  ) {
+    super(retry, wait);
+    this.timeoutMs = timeoutMs;
+  }
+
+  async prepAsync(shared: TShared, signal: AbortSignal): Promise<TPrep> {
+    return undefined as TPrep;
+  }
+
+  async execAsync(
+    prepRes: TItem,
+    signal: AbortSignal,
+    attempt: number
+  ): Promise<TResult> {
+    return undefined as TResult;
+  }
+
+  async execFallbackAsync(
+    prepRes: TItem,
+    exc: Error,
+    signal: AbortSignal
+  ): Promise<TResult> {
+    throw exc;
+  }
+
+  async postAsync(
+    shared: TShared,
+    prepRes: TPrep,
+    execRes: TExec,
+    signal: AbortSignal
+  ): Promise<TAction> {
+    return 'default' as TAction;
+  }
+
+  protected async _exec(prepRes: any, signal?: AbortSignal): Promise<any> {
+    const s = signal || new AbortController().signal;
+    const policy = this.policy;
+    // A local counter: parallel batch items retry independently
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await raceSignal(this.execAsync(prepRes, s, attempt), s);
+      } catch (e) {
+        if (s.aborted) {
+          throw abortReason(s);
+        }
+        if (e instanceof FlowInterruptedError) {
+          throw e;
+        }
+        if (!shouldRetry(policy, e as Error, attempt)) {
+          this._emit('execFallback', { attempts: attempt, error: e as Error });
+          try {
+            return await raceSignal(
+              this.execFallbackAsync(prepRes, e as Error, s),
+              s
+            );
+          } catch (f) {
+            this._failure = { attempts: attempt, prepRes };
+            throw f;
+          }
+        }
+        this._emit('execRetry', { attempt, error: e as Error });
+        const delay = retryDelay(policy, attempt);
+        if (delay > 0) {
+          await sleep(delay, s);
+        }
+      }
+    }
+  }
+
+  async runAsync(shared: TShared, options: RunOptions = {}): Promise<TAction> {
+    if (Object.keys(this.successors).length > 0) {
+      console.warn("Node won't run successors. Use AsyncFlow.");
+    }
+    const { signal, dispose } = linkSignal(options.signal, options.timeoutMs);
+    try {
+      return await this._runAsync(shared, signal);
+    } finally {
+      dispose();
+    }
+  }
+
+  protected async _runAsync(
+    shared: TShared,
+    signal?: AbortSignal
+  ): Promise<TAction> {
+    const { signal: s, dispose } = linkSignal(signal, this.timeoutMs, this.id);
+    try {
+      const start = Date.now();
+      const p = await raceSignal(this.prepAsync(shared, s), s);
+      this._emit('prepDone', { durationMs: Date.now() - start });
+      const e = await this._exec(p, s);
+      return await raceSignal(this.postAsync(shared, p, e, s), s);
+    } finally {
+      dispose();
+    }
+  }
+
+  protected _run(shared: TShared): TAction {
+    throw new Error('Use runAsync.');
+  }
+}
+
+export class AsyncBatchNode<
+    TShared extends object = SharedStore,
+    TItem = any,
+    TResult = any,
+    TAction extends string = ActionType,
+  >
+  extends AsyncNode<TShared, TItem[], TResult[], TAction, TItem, TResult>
+  implements BatchFailureHandling
+{
+  protected failureMode: BatchFailureMode = 'failFast';
+  batchSummary?: BatchSummary;
+
+  setFailureMode(mode: BatchFailureMode): void {
+    this.failureMode = mode;
+  }
+
+  protected async _exec(items: any[], signal?: AbortSignal): Promise<any[]> {
+    const s = signal || new AbortController().signal;
+    const results = [];
+    for (const item of items) {
+      results.push(
+        await settleAsync(this.failureMode, () => super._exec(item, s), s)
+      );
+    }
+    this.batchSummary = summarizeBatch(results);
+    return batchOutput(this.failureMode, results);
+  }
+}
+
+export class AsyncParallelBatchNode<
+    TShared extends object = SharedStore,
+    TItem = any,
+    TResult = any,
+    TAction extends string = ActionType,
+  >
+  extends AsyncNode<TShared, TItem[], TResult[], TAction, TItem, TResult>
+  implements BatchFailureHandling
+{
+  protected limits: ConcurrencyOptions = {};
+  protected failureMode: BatchFailureMode = 'failFast';
+  batchSummary?: BatchSummary;
+
+  setFailureMode(mode: BatchFailureMode): void {
+    this.failureMode = mode;
+  }
+
+  setConcurrency(limits: ConcurrencyOptions): void {
+    this.limits = checkLimits(limits);
+  }
+
+  protected async _exec(items: any[], signal?: AbortSignal): Promise<any[]> {
+    const s = signal || new AbortController().signal;
+    const results = await mapPool(
+      items,
+      item => settleAsync(this.failureMode, () => super._exec(item, s), s),
+      this.limits,
+      s
+    );
+    this.batchSummary = summarizeBatch(results);
+    return batchOutput(this.failureMode, results);
+  }
+}
+
+/**
+ * A node whose exec produces its result incrementally. Each chunk from
+ * `execStream` is emitted as a `chunk` event (see `AsyncFlow.stream`) as soon
+ * as it arrives; `post` receives the chunks combined by `aggregate`. Chunks
+ * of an attempt that fails have already been emitted when it is retried.
+ */
+export class AsyncStreamNode<
+  TShared extends object = SharedStore,
+  TPrep = any,
+  TChunk = any,
+  TExec = any,
+  TAction extends string = ActionType,
+> extends AsyncNode<TShared, TPrep, TExec, TAction> {
+  async *execStream(
+    prepRes: TPrep,
+    signal: AbortSignal,
+    attempt: number
+  ): AsyncIterable<TChunk> {}
+
+  /** Joins string chunks into one string; other chunks become an array. */
+  aggregate(chunks: TChunk[]): TExec {
+    return (
+      chunks.every(chunk => typeof chunk === 'string')
+        ? chunks.join('')
+        : chunks
+    ) as TExec;
+  }
+
+  async execAsync(
+    prepRes: TPrep,
+    signal: AbortSignal,
+    attempt: number
+  ): Promise<TExec> {
+    const chunks: TChunk[] = [];
+    for await (const chunk of this.execStream(prepRes, signal, attempt)) {
+      if (signal.aborted) {
+        throw abortReason(signal);
+      }
+      chunks.push(chunk);
+      this._emit('chunk', { chunk, attempt });
+    }
+    return this.aggregate(chunks);
+  }
+}
+
+/** A chunk yielded by `AsyncFlow.stream`. */
+export interface StreamChunk {
+  nodeId: string;
+  /** Ids from the streamed flow down to the node, as in flow events. */
+  path: string[];
+  chunk: unknown;
+}
+
+/**
+ * Fans out: when an AsyncFlow reaches a Parallel node, it runs the node and
+ * then every one of its successors concurrently, as branches named by their
+ * actions. Branches run until they reach a Join (or end); the flow then
+ * continues at the Join.
+ *
+ *   fork.next(image, 'image');
+ *   fork.next(tts, 'tts');
+ *   image.next(join);
+ *   tts.next(join);
+ *   join.next(assemble);
+ */
+export class Parallel<
+  TShared extends object = SharedStore,
+  TPrep = any,
+  TExec = any,
+  TAction extends string = ActionType,
+> extends AsyncNode<TShared, TPrep, TExec, TAction> {
+  /** Successors to run in parallel, by action; an 'error' edge is not one. */
+  branches(): [ActionType, BaseNode<TShared, any, any, any>][] {
+    return Object.entries(this.successors).filter(
+      ([action]) => action !== 'error'
+    );
+  }
+
+  /** The Join the branches lead to, or null if they all just end. */
+  findJoin(): Join<TShared> | null {
+    const joins = new Set<Join<TShared>>();
+    const seen = new Set<BaseNode<any, any, any, any>>();
+    const queue = this.branches().map(([, node]) => node);
+    while (queue.length > 0) {
+      const node = queue.shift()!;
+      if (seen.has(node)) {
+        continue;
+      }
+      seen.add(node);
+      if (node instanceof Join) {
+        joins.add(node);
+      } else if (node instanceof Parallel) {
+        // A nested fork's branches meet at its own Join first
+        const inner = node.findJoin();
+        queue.push(...Object.values(inner?.successors ?? {}));
+      } else {
+        queue.push(...Object.values(node.successors));
+      }
+    }
+    if (joins.size > 1) {
+      throw new Error(`Branches of '${this.id}' lead to more than one Join`);
+    }
+    return joins.size > 0 ? [...joins][0] : null;
+  }
+}
+
+export type JoinWait = 'all' | 'any' | number;
+
+export interface JoinOptions<TShared extends object = SharedStore> {
+  /** Branches to wait for: all of them (default), the first one, or N. */
+  waitFor?: JoinWait;
+  /**
+   * When set, each branch runs against its own child store layered over the
+   * parent, and `merge` folds the branches that arrived in time back into
+   * the parent, keyed by branch name.
+   */
+  merge?: (
+    parent: TShared,
+    branches: Record<string, TShared>
+  ) => void | Promise<void>;
+}
+
+/**
+ * Fans in the branches of a Parallel node. Once enough branches have
+ * arrived, the others are aborted and the Join runs like any other node.
+ * The flow fails if a branch throws and too few branches are left to arrive.
+ */
+export class Join<
+  TShared extends object = SharedStore,
+  TPrep = any,
+  TExec = any,
+  TAction extends string = ActionType,
+> extends AsyncNode<TShared, TPrep, TExec, TAction> {
+  constructor(protected options: JoinOptions<TShared> = {}) {
+    super();
+  }
+
+  get merge(): JoinOptions<TShared>['merge'] {
+    return this.options.merge;
+  }
+
+  /** How many of `total` branches must arrive. */
+  quorum(total: number): number {
+    const waitFor = this.options.waitFor ?? 'all';
+    const need =
+      waitFor === 'all'
+        ? total
+        : waitFor === 'any'
+          ? Math.min(1, total)
+          : waitFor;
+    if (need < 0 || need > total) {
+      throw new Error(
+        `'${this.id}' waits for ${need} branches but only ${total} run`
+      );
+    }
+    return need;
+  }
+}
+
+export class AsyncFlow<
+  TShared extends object = SharedStore,
+  TAction extends string = ActionType,
+  TPrep = any,
+> extends Flow<TShared, TAction, TPrep> {
+  protected budget: UsageBudget | null = null;
+
+  protected async _orchAsync(
+    shared: TShared,
+    params: Record<string, any> | undefined,
+    run: OrchOptions
+  ): Promise<ActionType> {
+    const entry = this.entry(params, run);
+    const { resumeAt, ...rest } = run;
+    const end = await this.walk(
+      entry.node,
+      entry.action,
+      shared,
+      entry.params,
+      { ...rest, guard: newGuard() },
+      false,
+      resumeAt
+    );
+    return end.action;
+  }
+
+  // Runs nodes from `node` on. A branch walk stops in front of a Join and
+  // returns it; the main walk runs to the end and writes checkpoints.
+  private async walk(
+    node: BaseNode<TShared, any, any, any> | null,
+    action: ActionType,
+    shared: TShared,
+    params: Record<string, any>,
+    run: OrchOptions,
+    branch: boolean = false,
+    resumeAt?: OrchOptions['resumeAt']
+  ): Promise<{ action: ActionType; join: Join<TShared> | null }> {
+    const { signal } = run;
+    let joined: BaseNode<TShared, any, any, any> | null = null;
+    while (node) {
+      if (branch && node instanceof Join && node !== joined) {
+        return { action, join: node };
+      }
+      node = this.guardStep(node, run);
+      const curr = this.prepareStep(node, params, run);
+      if (signal?.aborted) {
+        throw new FlowAbortedError(curr.id, abortReason(signal));
+      }
+      const nested = this.resumeStep(curr, resumeAt);
+      resumeAt = undefined;
+      try {
+        action = await this.runStep(curr, async () =>
+          curr instanceof AsyncNode || curr instanceof AsyncFlow
+            ? await (curr as any)._runAsync(shared, signal, nested)
+            : (curr as any)._run(shared, nested)
+        );
+      } catch (e) {
+        if (signal?.aborted && !(e instanceof FlowAbortedError)) {
+          throw new FlowAbortedError(curr.id, abortReason(signal));
+        }
+        action = this.routeError(curr, e, shared);
+      }
+      if (curr instanceof Parallel && action !== 'error') {
+        // Resuming from the fork would follow a single branch
+        node = joined = await this.fanOut(curr, shared, params, run);
+        continue;
+      }
+      if (!branch) {
+        await this.checkpoint(node, action, params, shared, run);
+      }
+      node = this.advance(curr, action, run);
+    }
+    return { action, join: null };
+  }
+
+  // Runs the branches of a Parallel node and returns the Join they meet at
+  private async fanOut(
+    fork: Parallel<TShared>,
+    shared: TShared,
+    params: Record<string, any>,
+    run: OrchOptions
+  ): Promise<BaseNode<TShared, any, any, any> | null> {
+    const join = fork.findJoin();
+    const branches = fork.branches();
+    const need = join ? join.quorum(branches.length) : branches.length;
+    const scopes = branches.map(() =>
+      join?.merge ? (Object.create(shared) as TShared) : shared
+    );
+    const { signal, abort, dispose } = linkSignal(run.signal);
+
+    try {
+      const walks = branches.map(([name, start], i) => {
+        this.transition(fork, start, name, run);
+        return this.walk(
+          start,
+          name,
+          scopes[i],
+          params,
+          { ...run, signal },
+          true
+        );
+      });
+      // Branches cut short below are not failures
+      walks.forEach(walk => walk.catch(() => {}));
+      const arrived = await quorum(walks, need);
+      abort(new Error(`'${join?.id}' has all the branches it waits for`));
+
+      if (join?.merge) {
+        await join.merge(
+          shared,
+          Object.fromEntries(arrived.map(i => [branches[i][0], scopes[i]]))
+        );
+      }
+      return join;
+    } catch (e) {
+      abort(e);
+      if (e instanceof FlowInterruptedError) {
+        throw new Error(
+          `'${e.request.nodeId}' cannot interrupt inside a Parallel branch`
+        );
+      }
+      throw e;
+    } finally {
+      dispose();
+    }
+  }
+
+  protected async _runAsync(
+    shared: TShared,
+    signal?: AbortSignal,
+    run: RunState = {}
+  ): Promise<TAction> {
+    const s = signal || new AbortController().signal;
+    return this.trackFlow(async step => {
+      const p = await raceSignal(this.prepAsync(shared, s), s);
+      const o = await this._orchAsync(shared, undefined, {
+        ...run,
+        step,
+        signal: s,
+      });
+      return await raceSignal(this.postAsync(shared, p, o, s), s);
+    }, run.step);
+  }
+
+  async prepAsync(shared: TShared, signal: AbortSignal): Promise<TPrep> {
+    return undefined as TPrep;
+  }
+
+  async postAsync(
+    shared: TShared,
+    prepRes: TPrep,
+    execRes: any,
+    signal: AbortSignal
+  ): Promise<TAction> {
+    return execRes;
+  }
+
+  async runAsync(shared: TShared, options: RunOptions = {}): Promise<TAction> {
+    if (Object.keys(this.successors).length > 0) {
+      console.warn("Flow won't run successors. Use parent AsyncFlow.");
+    }
+    this.assertValid();
+    return this.runRoot(shared, options, { runId: options.runId });
+  }
+
+  /** Runs the flow like `runAsync` and reports what happened; see `execute`. */
+  async executeAsync(
+    shared: TShared,
+    options: RunOptions = {}
+  ): Promise<FlowRunResult<TAction>> {
+    const step = nextStep();
+    const recorder = recordRun(this, step, this.pricing);
+    try {
+      this.assertValid();
+      return recorder.finish(
+        await this.runRoot(shared, options, { runId: options.runId, step })
+      );
+    } finally {
+      recorder.dispose();
+    }
+  }
+
+  /**
+   * Aborts runs whose reported usage exceeds the budget, with a
+   * BudgetExceededError. Costs come from the flow's pricing table.
+   */
+  setBudget(budget: UsageBudget | null): void {
+    this.budget = budget;
+  }
+
+  // Runs this flow as the outermost one: applies the deadline and budget,
+  // and turns interrupts into resumable ones.
+  private async runRoot(
+    shared: TShared,
+    options: RunOptions,
+    run: RunState
+  ): Promise<TAction> {
+    const { signal, abort, dispose } = linkSignal(
+      options.signal,
+      options.timeoutMs
+    );
+    const budget = this.budget;
+    const meter = new UsageMeter(this.pricing);
+    const onUsage: FlowListener<'usage'> = e => {
+      const used = meter.add(e.path, e);
+      if (
+        budget?.maxTokens !== undefined &&
+        used.totalTokens > budget.maxTokens
+      ) {
+        abort(
+          new BudgetExceededError(
+            e.nodeId,
+            'maxTokens',
+            budget.maxTokens,
+            used.totalTokens
+          )
+        );
+      } else if (budget?.maxCost !== undefined && used.cost > budget.maxCost) {
+        abort(
+          new BudgetExceededError(
+            e.nodeId,
+            'maxCost',
+            budget.maxCost,
+            used.cost
+          )
+        );
+      }
+    };
+    // Reserved here so the meter only counts this run's usage
+    const step = run.step ?? nextStep();
+    const unlisten = budget
+      ? listenToRun(this, step, { usage: onUsage })
+      : () => {};
+    try {
+      return await this._runAsync(shared, signal, { ...run, step });
+    } catch (e) {
+      if (
+        e instanceof FlowAbortedError &&
+        e.reason instanceof BudgetExceededError
+      ) {
+        throw e.reason;
+      }
+      if (e instanceof FlowInterruptedError) {
+        e.token = encodeToken({
+          request: e.request,
+          shared: snapshot(shared),
+          runId: run.runId,
+        });
+      }
+      throw e;
+    } finally {
+      unlisten();
+      dispose();
+    }
+  }
+
+  /**
+   * Runs the flow like `runAsync`, yielding the chunks of streaming nodes
+   * (nested flows included) as they arrive. The generator returns the
+   * flow's action. Stopping iteration early aborts the run.
+   */
+  async *stream(
+    shared: TShared,
+    options: RunOptions = {}
+  ): AsyncGenerator<StreamChunk, TAction> {
+    this.assertValid();
+    const chunks: StreamChunk[] = [];
+    let wake: () => void = () => {};
+    // Only this run's chunks, though others may be streaming at the same time
+    const step = nextStep();
+    const unlisten = listenToRun(this, step, {
+      chunk: e => {
+        chunks.push({ nodeId: e.nodeId, path: e.path, chunk: e.chunk });
+        wake();
+      },
+    });
+    const { signal, abort, dispose } = linkSignal(options.signal);
+    let finished = false;
+    const run = this.runRoot(
+      shared,
+      { ...options, signal },
+      { runId: options.runId, step }
+    ).finally(() => {
+      finished = true;
+      wake();
+    });
+    // Failures surface from `await run` below
+    run.catch(() => {});
+
+    try {
+      while (!finished || chunks.length > 0) {
+        if (chunks.length > 0) {
+          yield chunks.shift()!;
+        } else {
+          await new Promise<void>(resolve => (wake = resolve));
+        }
+      }
+      return await run;
+    } finally {
+      unlisten();
+      if (!finished) {
+        abort(new Error('Stream closed'));
+        await run.catch(() => {});
+      }
+      dispose();
+    }
+  }
+
+  async resumeAsync(
+    runId: string,
+    shared: TShared = {} as TShared,
+    options: RunOptions = {}
+  ): Promise<TAction> {
+    const checkpoint = await this.checkpointStore?.load(runId);
+    if (!checkpoint) {
+      throw new Error(`No checkpoint found for run '${runId}'`);
+    }
+    this.assertValid();
+    Object.assign(shared, checkpoint.shared);
+    return this.runRoot(shared, options, { runId, resumeFrom: checkpoint });
+  }
+
+  /**
+   * Continues a run that a node interrupted, at that node, with `input` as
+   * the result of its `interrupt` call. The shared store captured in the
+   * token is restored into `shared`.
+   */
+  async resumeWith(
+    token: string,
+    input: unknown,
+    shared: TShared = {} as TShared,
+    options: RunOptions = {}
+  ): Promise<TAction> {
+    const state = decodeToken(token);
+    this.assertValid();
+    Object.assign(shared, state.shared);
+    return this.runRoot(shared, options, {
+      runId: state.runId,
+      resumeAt: { path: state.request.path, input },
+    });
+  }
+}
+
+export class AsyncBatchFlow<
+    TShared extends object = SharedStore,
+    TAction extends string = ActionType,
+  >
+  extends AsyncFlow<TShared, TAction, Record<string, any>[]>
+  implements BatchFailureHandling
+{
+  protected failureMode: BatchFailureMode = 'failFast';
+  batchSummary?: BatchSummary;
+
+  setFailureMode(mode: BatchFailureMode): void {
+    this.failureMode = mode;
+  }
+
+  protected async _runAsync(
+    shared: TShared,
+    signal?: AbortSignal,
+    run: RunState = {}
+  ): Promise<TAction> {
+    refuseCheckpoints(this, run);
+    const s = signal || new AbortController().signal;
+    return this.trackFlow(async step => {
+      const pr = (await raceSignal(this.prepAsync(shared, s), s)) || [];
+      const results = [];
+      try {
+        for (const bp of pr) {
+          results.push(
+            await settleAsync(
+              this.failureMode,
+              () =>
+                this._orchAsync(
+                  shared,
+                  { ...this.params, ...bp },
+                  { step, signal: s }
+                ),
+              s
+            )
+          );
+        }
+      } catch (e) {
+        throw batchInterrupt(e);
+      }
+      this.batchSummary = summarizeBatch(results);
+      return await raceSignal(
+        this.postAsync(
+          shared,
+          pr,
+          flowBatchOutput(this.failureMode, results),
+          s
+        ),
+        s
+      );
+    }, run.step);
+  }
+}
+
+export class AsyncParallelBatchFlow<
+    TShared extends object = SharedStore,
+    TAction extends string = ActionType,
+  >
+  extends AsyncFlow<TShared, TAction, Record<string, any>[]>
+  implements BatchFailureHandling
+{
+  protected limits: ConcurrencyOptions = {};
+  protected failureMode: BatchFailureMode = 'failFast';
+  protected branchMerge: BranchMerge<TShared> | null = null;
+  batchSummary?: BatchSummary;
+
+  setFailureMode(mode: BatchFailureMode): void {
+    this.failureMode = mode;
+  }
+
+  setConcurrency(limits: ConcurrencyOptions): void {
+    this.limits = checkLimits(limits);
+  }
+
+  /**
+   * Isolates branches: each one runs against a child store that reads
+   * through to the parent (`Object.create(shared)`) but keeps its own writes.
+   * Objects read from the parent are still shared, so mutate copies. Once
+   * every branch has finished, `merge` folds the child stores back in.
+   */
+  setBranchScope(merge: BranchMerge<TShared> | null): void {
+    this.branchMerge = merge;
+  }
+
+  protected async _runAsync(
+    shared: TShared,
+    signal?: AbortSignal,
+    run: RunState = {}
+  ): Promise<TAction> {
+    refuseCheckpoints(this, run);
+    const s = signal || new AbortController().signal;
+    return this.trackFlow(async step => {
+      const pr = (await raceSignal(this.prepAsync(shared, s), s)) || [];
+      const merge = this.branchMerge;
+      const branches = pr.map((bp: any) => ({
+        params: bp,
+        shared: merge ? (Object.create(shared) as TShared) : shared,
+      }));
+      const results = await mapPool(
+        branches,
+        branch =>
+          settleAsync(
+            this.failureMode,
+            () =>
+              this._orchAsync(
+                branch.shared,
+                { ...this.params, ...branch.params },
+                { step, signal: s }
+              ),
+            s
+          ),
+        this.limits,
+        s
+      ).catch(e => {
+        throw batchInterrupt(e);
+      });
+      if (merge) {
+        const done = branches.filter(
+          (_, i) => results[i].status === 'fulfilled'
+        );
+        await merge(
+          shared,
+          done.map(branch => branch.shared),
+          done.map(branch => branch.params)
+        );
+      }
+      this.batchSummary = summarizeBatch(results);
+      return await raceSignal(
+        this.postAsync(
+          shared,
+          pr,
+          flowBatchOutput(this.failureMode, results),
+          s
+        ),
+        s
+      );
+    }, run.step);
+  }
+}
@@ -0,0 +1,270 @@
+// ZeroGraph TypeScript - Declarative flow definitions
+
+import {
+  ActionType,
+  AsyncBatchFlow,
+  AsyncFlow,
+  AsyncNode,
+  AsyncParallelBatchFlow,
+  BaseNode,
+  BatchFlow,
+  Flow,
+  Node,
+} from './core';
+import { FlowDefinitionError } from './errors';
+import { RetryPolicy } from './retry';
+
+/** Constructor options of Node and AsyncNode. */
+export interface NodeOptions {
+  maxRetries?: number;
+  wait?: number;
+  timeoutMs?: number;
+  /** Backoff settings on top of `maxRetries` and `wait`. */
+  retry?: Pick<RetryPolicy, 'backoff' | 'factor' | 'maxDelayMs' | 'jitter'>;
+}
+
+export interface EdgeDefinition {
+  from: string;
+  to: string;
+  /** Defaults to 'default'. */
+  action?: ActionType;
+}
+
+export interface NodeDefinition {
+  id: string;
+  /** Name the node class is registered under. */
+  type: string;
+  params?: Record<string, any>;
+  options?: NodeOptions;
+  /** Nested graph, for flow types. */
+  start?: string;
+  nodes?: NodeDefinition[];
+  edges?: EdgeDefinition[];
+}
+
+export interface FlowDefinition {
+  id?: string;
+  /** Defaults to 'Flow'. */
+  type?: string;
+  params?: Record<string, any>;
+  start: string;
+  nodes: NodeDefinition[];
+  edges?: EdgeDefinition[];
+}
+
+type NodeConstructor = new (...args: any[]) => BaseNode<any, any, any, any>;
+type NodeFactory = (options: NodeOptions) => BaseNode<any, any, any, any>;
+
+/**
+ * Maps type names used in definitions to node classes. The built-in flow
+ * classes are registered under their own names.
+ */
+export class NodeRegistry {
+  private factories = new Map<string, NodeFactory>();
+  private types = new Map<NodeConstructor, string>();
+
+  constructor() {
+    this.register('Flow', Flow)
+      .register('BatchFlow', BatchFlow)
+      .register('AsyncFlow', AsyncFlow)
+      .register('AsyncBatchFlow', AsyncBatchFlow)
+      .register('AsyncParallelBatchFlow', AsyncParallelBatchFlow);
+  }
+
+  /**
+   * Registers a node class. Nodes are built with `new type(maxRetries, wait,
+   * timeoutMs)`, or with a RetryPolicy first when `retry` is set. Flows are
+   * built with `new type()`. A `create` factory replaces both.
+   */
+  register(type: string, ctor: NodeConstructor, create?: NodeFactory): this {
+    this.factories.set(
+      type,
+      create ||
+        (options =>
+          ctor === Flow || ctor.prototype instanceof Flow
+            ? new ctor()
+            : new ctor(...constructorArgs(options)))
+    );
+    this.types.set(ctor, type);
+    return this;
+  }
+
+  has(type: string): boolean {
+    return this.factories.has(type);
+  }
+
+  create(
+    type: string,
+    options: NodeOptions = {}
+  ): BaseNode<any, any, any, any> {
+    const create = this.factories.get(type);
+    if (!create) {
+      throw new FlowDefinitionError(`Unknown node type '${type}'`);
+    }
+    return create(options);
+  }
+
+  /** The name a node's class is registered under. */
+  typeOf(node: BaseNode<any, any, any, any>): string | undefined {
+    return this.types.get(node.constructor as NodeConstructor);
+  }
+}
+
+function constructorArgs(options: NodeOptions): unknown[] {
+  const { maxRetries, wait, timeoutMs, retry } = options;
+  if (!retry) {
+    return [maxRetries, wait, timeoutMs];
+  }
+  const policy: RetryPolicy = { ...retry, maxAttempts: maxRetries };
+  if (wait !== undefined) {
+    policy.delayMs = wait * 1000;
+  }
+  return [policy, undefined, timeoutMs];
+}
+
+/**
+ * Builds a flow from a definition. Node ids become the nodes' explicit ids.
+ */
+export function buildFlow(
+  definition: FlowDefinition,
+  registry: NodeRegistry
+): Flow<any, any, any> {
+  const flow = registry.create(definition.type || 'Flow');
+  if (!(flow instanceof Flow)) {
+    throw new FlowDefinitionError(`'${definition.type}' is not a flow type`);
+  }
+  if (definition.id !== undefined) {
+    flow.id = definition.id;
+  }
+  build(flow, definition, registry);
+  return flow;
+}
+
+function build(
+  flow: Flow<any, any, any>,
+  definition: FlowDefinition | NodeDefinition,
+  registry: NodeRegistry
+): void {
+  if (definition.params) {
+    flow.setParams(definition.params);
+  }
+
+  const byId = new Map<string, BaseNode<any, any, any, any>>();
+  for (const def of definition.nodes || []) {
+    if (byId.has(def.id)) {
+      throw new FlowDefinitionError(`Duplicate node id '${def.id}'`);
+    }
+    const node = registry.create(def.type, def.options);
+    node.id = def.id;
+    if (node instanceof Flow) {
+      build(node, def, registry);
+    } else {
+      if (def.nodes || def.start !== undefined) {
+        throw new FlowDefinitionError(
+          `'${def.id}' has a nested graph but '${def.type}' is not a flow type`
+        );
+      }
+      if (def.params) {
+        node.setParams(def.params);
+      }
+    }
+    byId.set(def.id, node);
+  }
+
+  const lookup = (id: string, where: string) => {
+    const node = byId.get(id);
+    if (!node) {
+      throw new FlowDefinitionError(`Unknown node '${id}' in ${where}`);
+    }
+    return node;
+  };
+
+  for (const edge of definition.edges || []) {
+    const where = `edge ${edge.from} -> ${edge.to}`;
+    lookup(edge.from, where).next(lookup(edge.to, where), edge.action);
+  }
+  if (definition.start !== undefined) {
+    flow.start(lookup(definition.start, 'start'));
+  }
+}
+
+/**
+ * Parses and builds a flow definition document. Documents are JSON unless
+ * another parser is passed, e.g. `loadFlow(text, registry, YAML.parse)`.
+ */
+export function loadFlow(
+  source: string,
+  registry: NodeRegistry,
+  parse: (source: string) => unknown = JSON.parse
+): Flow<any, any, any> {
+  return buildFlow(parse(source) as FlowDefinition, registry);
+}
+
+/**
+ * Describes a flow's structure in the format `buildFlow` reads. Every node,
+ * nested flows included, must be an instance of a registered class.
+ */
+export function serializeFlow(
+  flow: Flow<any, any, any>,
+  registry: NodeRegistry
+): FlowDefinition {
+  return serialize(flow, registry) as FlowDefinition;
+}
+
+function serialize(
+  node: BaseNode<any, any, any, any>,
+  registry: NodeRegistry
+): NodeDefinition {
+  const type = registry.typeOf(node);
+  if (!type) {
+    throw new FlowDefinitionError(
+      `'${node.id}' has unregistered type ${node.constructor.name}`
+    );
+  }
+  const def: NodeDefinition = { id: node.id, type };
+  const params = (node as any).params as Record<string, any>;
+  if (Object.keys(params).length > 0) {
+    def.params = params;
+  }
+
+  if (node instanceof Flow) {
+    const nodes = node.nodes();
+    if (nodes.length > 0) {
+      def.start = nodes[0].id;
+    }
+    def.nodes = nodes.map(child => serialize(child, registry));
+    def.edges = [];
+    for (const from of nodes) {
+      for (const [action, to] of Object.entries(from.successors)) {
+        def.edges.push(
+          action === 'default'
+            ? { from: from.id, to: to.id }
+            : { from: from.id, to: to.id, action }
+        );
+      }
+    }
+  } else if (node instanceof Node) {
+    const n = node as any;
+    const options: NodeOptions = {};
+    if (n.maxRetries !== 1) options.maxRetries = n.maxRetries;
+    if (n.wait !== 0) options.wait = n.wait;
+    if (node instanceof AsyncNode && n.timeoutMs !== 0) {
+      options.timeoutMs = n.timeoutMs;
+    }
+    // retryOn and budget are code, not structure
+    const { backoff, factor, maxDelayMs, jitter } =
+      n.retryPolicy as RetryPolicy;
+    const retry = Object.fromEntries(
+      Object.entries({ backoff, factor, maxDelayMs, jitter }).filter(
+        ([, value]) => value !== undefined
+      )
+    );
+    if (Object.keys(retry).length > 0) {
+      options.retry = retry;
+    }
+    if (Object.keys(options).length > 0) {
+      def.options = options;
+    }
+  }
+  return def;
+}
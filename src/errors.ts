@@ -0,0 +1,172 @@
+// ZeroGraph TypeScript - Framework errors
+
+import type { AgentStep } from './tools';
+import type { FlowDiagnostic } from './validate';
+
+/**
+ * Raised when a node or flow exceeds its deadline. `nodeId` names the node
+ * whose own `timeoutMs` ran out; a run's deadline leaves it unset.
+ */
+export class TimeoutError extends Error {
+  constructor(
+    public timeoutMs: number,
+    public nodeId?: string
+  ) {
+    super(
+      nodeId
+        ? `'${nodeId}' timed out after ${timeoutMs}ms`
+        : `Timed out after ${timeoutMs}ms`
+    );
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Raised by an AsyncFlow when its run is aborted, either through the caller's
+ * AbortSignal or the flow deadline. `nodeId` is the node that was running
+ * (or about to run) when the abort was observed, and `reason` is the abort
+ * reason carried by the signal.
+ */
+export class FlowAbortedError extends Error {
+  constructor(
+    public nodeId: string,
+    public reason: unknown
+  ) {
+    super(`Flow aborted while running '${nodeId}'`);
+    this.name = 'FlowAbortedError';
+  }
+}
+
+/**
+ * Raised by a strict flow whose graph fails validation. The message lists
+ * every diagnostic; `diagnostics` holds them structured.
+ */
+export class FlowValidationError extends Error {
+  constructor(public diagnostics: FlowDiagnostic[]) {
+    super(
+      [
+        'Flow validation failed:',
+        ...diagnostics.map(d => `  ${d.severity} ${d.code}: ${d.message}`),
+      ].join('\n')
+    );
+    this.name = 'FlowValidationError';
+  }
+}
+
+/**
+ * Raised when a flow definition cannot be built or a flow cannot be
+ * serialized, e.g. for unknown node types or ids.
+ */
+export class FlowDefinitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FlowDefinitionError';
+  }
+}
+
+/**
+ * Raised when a flow run would exceed one of its StepLimits and no fallback
+ * is wired, with `path` holding the ids of the last nodes that ran, oldest
+ * first. An AgentNode raises it when it runs out of steps, with the tools
+ * it called as `path` and the full AgentSteps as `steps`.
+ */
+export class MaxStepsExceededError extends Error {
+  constructor(
+    public nodeId: string,
+    public limit: 'maxSteps' | 'maxVisits',
+    public max: number,
+    public path: string[],
+    public steps?: AgentStep[]
+  ) {
+    super(`Exceeded ${limit} (${max}) at '${nodeId}': ${path.join(' -> ')}`);
+    this.name = 'MaxStepsExceededError';
+  }
+}
+
+/**
+ * What a flow puts into `shared.error` before following a node's 'error'
+ * edge. `attempts` is 0 when the node failed outside `exec`, in which case
+ * `prepRes` may be missing too. Only the handler sees it: without an 'error'
+ * edge the node's own error propagates unwrapped.
+ */
+export class NodeExecutionError extends Error {
+  constructor(
+    public nodeId: string,
+    public attempts: number,
+    public prepRes: unknown,
+    public cause: unknown
+  ) {
+    super(
+      `Node '${nodeId}' failed: ${cause instanceof Error ? cause.message : String(cause)}`
+    );
+    this.name = 'NodeExecutionError';
+  }
+}
+
+/**
+ * Raised by an LLM client when the provider answers with an error status.
+ * `body` holds the response text, which usually explains the failure.
+ */
+export class LLMRequestError extends Error {
+  constructor(
+    public status: number,
+    public body: string
+  ) {
+    super(`LLM request failed with status ${status}`);
+    this.name = 'LLMRequestError';
+  }
+}
+
+/**
+ * Raised when a model reply cannot be parsed or does not match the expected
+ * schema. LLM nodes show `reply` and `problems` to the model when they ask
+ * again.
+ */
+export class OutputParseError extends Error {
+  constructor(
+    public reply: string,
+    public problems: string[]
+  ) {
+    super(`Could not parse model output: ${problems.join('; ')}`);
+    this.name = 'OutputParseError';
+  }
+}
+
+/**
+ * Raised by an AsyncFlow whose run used more tokens or money than its
+ * budget allows. `nodeId` is the node whose usage report crossed the limit;
+ * the run is aborted there.
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    public nodeId: string,
+    public limit: 'maxTokens' | 'maxCost',
+    public max: number,
+    public used: number
+  ) {
+    super(`Run exceeded ${limit} (${max}) at '${nodeId}': used ${used}`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export interface PendingRequest {
+  nodeId: string;
+  /** Ids from the flow that was run down to the interrupted node. */
+  path: string[];
+  payload: unknown;
+}
+
+/**
+ * Raised when a node calls `interrupt`. The AsyncFlow that was run adds a
+ * `token`; pass it with the caller's input to `AsyncFlow.resumeWith` to
+ * continue at the interrupted node. Retries and batch failure modes never
+ * swallow it.
+ */
+export class FlowInterruptedError extends Error {
+  token?: string;
+
+  constructor(public request: PendingRequest) {
+    super(`Flow interrupted at '${request.path.join('/')}'`);
+    this.name = 'FlowInterruptedError';
+  }
+}
@@ -0,0 +1,97 @@
+// ZeroGraph TypeScript - Flow lifecycle events
+
+import type { ActionType } from './core';
+import type { UsageReport } from './usage';
+
+export interface FlowEventBase {
+  /**
+   * Ids from the outermost running flow down to the subject of the event,
+   * e.g. `['ReviewFlow', 'CritiqueNode']` for a node in a nested flow. Empty
+   * for the outermost flow's own events.
+   */
+  path: string[];
+  /**
+   * Identifies one run of the subject. A node's events share a step, and a
+   * nested flow's own events carry the step of the node event it ran as.
+   */
+  step: number;
+  timestamp: number;
+}
+
+export interface NodeEventBase extends FlowEventBase {
+  nodeId: string;
+  /** Step of the flow run the node belongs to. */
+  parentStep: number;
+}
+
+export interface FlowEvents {
+  flowStart: FlowEventBase;
+  flowEnd: FlowEventBase & { action: ActionType; durationMs: number };
+  flowError: FlowEventBase & { error: Error; durationMs: number };
+  nodeStart: NodeEventBase;
+  prepDone: NodeEventBase & { durationMs: number };
+  /** An exec attempt failed and will be retried. */
+  execRetry: NodeEventBase & { attempt: number; error: Error };
+  /** The last exec attempt failed; the fallback is about to run. */
+  execFallback: NodeEventBase & { attempts: number; error: Error };
+  /** A streaming node produced a chunk during exec attempt `attempt`. */
+  chunk: NodeEventBase & { chunk: unknown; attempt: number };
+  /** A node reported the tokens of a model call. */
+  usage: NodeEventBase & UsageReport;
+  nodeEnd: NodeEventBase & { action: ActionType; durationMs: number };
+  nodeError: NodeEventBase & { error: Error; durationMs: number };
+  transition: FlowEventBase & { from: string; to: string; action: ActionType };
+}
+
+export type FlowEventName = keyof FlowEvents;
+
+export type FlowListener<E extends FlowEventName> = (
+  event: FlowEvents[E]
+) => void;
+
+export type FlowListeners = { [E in FlowEventName]?: FlowListener<E> };
+
+/** Anything flow listeners can subscribe to, i.e. a flow. */
+export interface FlowEventSource {
+  on<E extends FlowEventName>(event: E, listener: FlowListener<E>): unknown;
+  off<E extends FlowEventName>(event: E, listener: FlowListener<E>): unknown;
+}
+
+/**
+ * Subscribes listeners to one run of a flow: the run whose own events carry
+ * step `root`. Every run reports to the flow's listeners, so the events of
+ * other runs in progress at the same time are filtered out. Returns a
+ * function that unsubscribes the listeners.
+ */
+export function listenToRun(
+  source: FlowEventSource,
+  root: number,
+  listeners: FlowListeners
+): () => void {
+  // The run's own step and those of its nodes, nested flows' nodes included
+  const steps = new Set([root]);
+  const subscribed: [FlowEventName, FlowListener<any>][] = [
+    [
+      'nodeStart',
+      (e: FlowEvents['nodeStart']) => {
+        if (steps.has(e.parentStep)) {
+          steps.add(e.step);
+        }
+      },
+    ],
+    ...Object.entries(listeners).map(
+      ([event, listener]) =>
+        [
+          event,
+          (e: FlowEventBase) => {
+            if (steps.has(e.step)) {
+              (listener as FlowListener<any>)(e);
+            }
+          },
+        ] as [FlowEventName, FlowListener<any>]
+    ),
+  ];
+  subscribed.forEach(([event, listener]) => source.on(event, listener));
+  return () =>
+    subscribed.forEach(([event, listener]) => source.off(event, listener));
+}
@@ -0,0 +1,220 @@
+// ZeroGraph TypeScript - Provider-agnostic LLM clients
+
+import { LLMRequestError } from './errors';
+
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** JSON-encoded arguments, as produced by the model. */
+  arguments: string;
+}
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  name?: string;
+  /** Tools the assistant asks to call. */
+  toolCalls?: ToolCall[];
+  /** The call a 'tool' message answers. */
+  toolCallId?: string;
+}
+
+/** A tool the model may call; `parameters` is a JSON schema. */
+export interface ToolSpec {
+  name: string;
+  description?: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  /** Defaults to the client's model. */
+  model?: string;
+  tools?: ToolSpec[];
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface ChatResponse {
+  /** The assistant's reply. */
+  message: ChatMessage;
+  usage?: TokenUsage;
+  model?: string;
+  finishReason?: string;
+}
+
+/** What nodes depend on instead of a concrete provider. */
+export interface LLMClient {
+  chat(request: ChatRequest): Promise<ChatResponse>;
+}
+
+/** A client that can answer without blocking on I/O, for synchronous nodes. */
+export interface SyncLLMClient {
+  chatSync(request: ChatRequest): ChatResponse;
+}
+
+export interface OpenAIClientOptions {
+  model: string;
+  apiKey?: string;
+  /** Any OpenAI-compatible endpoint. Defaults to OpenAI's. */
+  baseURL?: string;
+  headers?: Record<string, string>;
+  /** Defaults to the global fetch (Node 18+). */
+  fetch?: (url: string, init: RequestInit) => Promise<Response>;
+}
+
+/**
+ * Talks to the chat completions endpoint of OpenAI or any compatible
+ * provider (Azure, OpenRouter, Ollama, vLLM, ...).
+ */
+export class OpenAIClient implements LLMClient {
+  constructor(private options: OpenAIClientOptions) {}
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const {
+      apiKey,
+      headers,
+      baseURL = 'https://api.openai.com/v1',
+    } = this.options;
+    const response = await (this.options.fetch ?? fetch)(
+      `${baseURL.replace(/\/$/, '')}/chat/completions`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          ...headers,
+        },
+        body: JSON.stringify({
+          model: request.model ?? this.options.model,
+          messages: request.messages.map(toWire),
+          tools: request.tools?.map(tool => ({
+            type: 'function',
+            function: tool,
+          })),
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+        }),
+        signal: request.signal,
+      }
+    );
+    if (!response.ok) {
+      throw new LLMRequestError(response.status, await response.text());
+    }
+
+    const body = await response.json();
+    const [choice] = body.choices;
+    const toolCalls = choice.message.tool_calls?.map((call: any) => ({
+      id: call.id,
+      name: call.function.name,
+      arguments: call.function.arguments,
+    }));
+    return {
+      message: {
+        role: 'assistant',
+        content: choice.message.content ?? '',
+        ...(toolCalls?.length ? { toolCalls } : {}),
+      },
+      usage: body.usage && {
+        promptTokens: body.usage.prompt_tokens,
+        completionTokens: body.usage.completion_tokens,
+        totalTokens: body.usage.total_tokens,
+      },
+      model: body.model,
+      finishReason: choice.finish_reason,
+    };
+  }
+}
+
+function toWire(message: ChatMessage): Record<string, unknown> {
+  return {
+    role: message.role,
+    content: message.content,
+    name: message.name,
+    tool_calls: message.toolCalls?.map(call => ({
+      id: call.id,
+      type: 'function',
+      function: { name: call.name, arguments: call.arguments },
+    })),
+    tool_call_id: message.toolCallId,
+  };
+}
+
+/** A rough, deterministic token count: one token per four characters. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export type MockReply = string | Partial<ChatMessage>;
+
+export type MockResponder = (request: ChatRequest) => MockReply;
+
+/**
+ * Answers with scripted replies, in order, or with a responder function for
+ * every request. Records the requests it got and estimates usage, so tests
+ * run offline and deterministically.
+ */
+export class MockLLMClient implements LLMClient, SyncLLMClient {
+  readonly requests: ChatRequest[] = [];
+  private replies: (MockReply | MockResponder)[];
+  private responder?: MockResponder;
+
+  constructor(replies: (MockReply | MockResponder)[] | MockResponder = []) {
+    this.replies = Array.isArray(replies) ? [...replies] : [];
+    this.responder = Array.isArray(replies) ? undefined : replies;
+  }
+
+  /** Queues more replies after the scripted ones. */
+  reply(...replies: (MockReply | MockResponder)[]): this {
+    this.replies.push(...replies);
+    return this;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    return this.chatSync(request);
+  }
+
+  chatSync(request: ChatRequest): ChatResponse {
+    this.requests.push(request);
+    const next = this.replies.shift() ?? this.responder;
+    if (next === undefined) {
+      throw new Error(
+        `MockLLMClient has no reply for request ${this.requests.length}`
+      );
+    }
+    const reply = typeof next === 'function' ? next(request) : next;
+    const message: ChatMessage = {
+      role: 'assistant',
+      content: '',
+      ...(typeof reply === 'string' ? { content: reply } : reply),
+    };
+
+    const promptTokens = request.messages.reduce(
+      (sum, m) => sum + estimateTokens(m.content),
+      0
+    );
+    const completionTokens = estimateTokens(
+      message.content +
+        (message.toolCalls ? JSON.stringify(message.toolCalls) : '')
+    );
+    return {
+      message,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+      model: request.model ?? 'mock',
+      finishReason: message.toolCalls?.length ? 'tool_calls' : 'stop',
+    };
+  }
+}
@@ -0,0 +1,238 @@
+// ZeroGraph TypeScript - Conversation memory
+
+import { AsyncNode, SharedStore } from './core';
+import { ChatMessage, LLMClient, ToolCall, estimateTokens } from './llm';
+import type { RetryPolicy } from './retry';
+
+export interface MemoryWindow {
+  /** Most recent messages the window keeps. */
+  maxMessages?: number;
+  /** Estimated tokens the window may use, summary included. */
+  maxTokens?: number;
+}
+
+/** The JSON form of a ConversationMemory, as stored in checkpoints. */
+export interface SerializedMemory {
+  messages: ChatMessage[];
+  summary?: string;
+  window: MemoryWindow;
+}
+
+function isSerialized(value: unknown): value is SerializedMemory {
+  return Array.isArray((value as SerializedMemory)?.messages);
+}
+
+/**
+ * The history of a chat, kept in the shared store. `recent` returns what
+ * fits the window for the next model call; older messages can be
+ * condensed into a running summary (see SummarizeMemoryNode). Serializes to
+ * JSON, so it survives checkpoints; `ConversationMemory.of` revives it.
+ */
+export class ConversationMemory {
+  summary?: string;
+  private messages: ChatMessage[] = [];
+
+  constructor(public window: MemoryWindow = {}) {}
+
+  /**
+   * The memory at `shared[key]`, created if missing and revived if it was
+   * restored from JSON.
+   */
+  static of(
+    shared: Record<string, any>,
+    key: string = 'memory',
+    window: MemoryWindow = {}
+  ): ConversationMemory {
+    const value = shared[key];
+    if (!(value instanceof ConversationMemory)) {
+      shared[key] = isSerialized(value)
+        ? ConversationMemory.fromJSON(value)
+        : new ConversationMemory(window);
+    }
+    return shared[key];
+  }
+
+  static fromJSON(data: SerializedMemory): ConversationMemory {
+    const memory = new ConversationMemory(data.window);
+    memory.messages = [...data.messages];
+    memory.summary = data.summary;
+    return memory;
+  }
+
+  add(...messages: ChatMessage[]): this {
+    this.messages.push(...messages);
+    return this;
+  }
+
+  user(content: string): this {
+    return this.add({ role: 'user', content });
+  }
+
+  assistant(content: string, toolCalls?: ToolCall[]): this {
+    return this.add({
+      role: 'assistant',
+      content,
+      ...(toolCalls ? { toolCalls } : {}),
+    });
+  }
+
+  tool(content: string, toolCallId: string, name?: string): this {
+    return this.add({
+      role: 'tool',
+      content,
+      toolCallId,
+      ...(name ? { name } : {}),
+    });
+  }
+
+  /** Every message not yet folded into the summary. */
+  all(): ChatMessage[] {
+    return [...this.messages];
+  }
+
+  /**
+   * The messages to send: the summary, if any, as a system message, then
+   * the newest messages within the limits. Never starts with a tool result
+   * whose call was cut off.
+   */
+  recent(): ChatMessage[] {
+    const summary = this.summaryMessage();
+    const { maxMessages = Infinity, maxTokens = Infinity } = this.window;
+    let tokens = summary ? estimateTokens(summary.content) : 0;
+    let start = this.messages.length;
+    while (start > 0 && this.messages.length - start < maxMessages) {
+      const cost = estimateTokens(this.messages[start - 1].content);
+      if (tokens + cost > maxTokens) {
+        break;
+      }
+      tokens += cost;
+      start--;
+    }
+    while (this.messages[start]?.role === 'tool') {
+      start++;
+    }
+    return [...(summary ? [summary] : []), ...this.messages.slice(start)];
+  }
+
+  /** Older messages that no longer fit the window. */
+  overflow(): ChatMessage[] {
+    const kept = this.recent().length - (this.summary ? 1 : 0);
+    return this.messages.slice(0, this.messages.length - kept);
+  }
+
+  /**
+   * Replaces the oldest `count` messages, by default those overflowing the
+   * window, with a summary that covers them and the previous summary.
+   */
+  summarize(summary: string, count: number = this.overflow().length): void {
+    this.messages = this.messages.slice(count);
+    this.summary = summary;
+  }
+
+  clear(): void {
+    this.messages = [];
+    this.summary = undefined;
+  }
+
+  toJSON(): SerializedMemory {
+    return {
+      messages: this.messages,
+      ...(this.summary !== undefined ? { summary: this.summary } : {}),
+      window: this.window,
+    };
+  }
+
+  private summaryMessage(): ChatMessage | undefined {
+    return this.summary === undefined
+      ? undefined
+      : {
+          role: 'system',
+          content: `Summary of the earlier conversation: ${this.summary}`,
+        };
+  }
+}
+
+export interface SummarizeMemoryOptions {
+  client: LLMClient;
+  /** Shared store key of the ConversationMemory. Defaults to 'memory'. */
+  key?: string;
+  /** System prompt for the summary. */
+  instructions?: string;
+  model?: string;
+  retry?: number | RetryPolicy;
+}
+
+/**
+ * Folds the messages that overflow a ConversationMemory's window into its
+ * summary, asking the model to extend the previous summary. Does nothing
+ * while everything fits. Override `execAsync` to summarize another way.
+ */
+export class SummarizeMemoryNode<
+  TShared extends object = SharedStore,
+> extends AsyncNode<
+  TShared,
+  { summary?: string; messages: ChatMessage[] } | null,
+  string | null
+> {
+  protected options: SummarizeMemoryOptions;
+
+  constructor(options: SummarizeMemoryOptions) {
+    super(options.retry ?? 1);
+    this.options = options;
+  }
+
+  async prepAsync(
+    shared: TShared
+  ): Promise<{ summary?: string; messages: ChatMessage[] } | null> {
+    const memory = ConversationMemory.of(shared, this.options.key);
+    const messages = memory.overflow();
+    return messages.length > 0 ? { summary: memory.summary, messages } : null;
+  }
+
+  async execAsync(
+    prepRes: { summary?: string; messages: ChatMessage[] } | null,
+    signal: AbortSignal
+  ): Promise<string | null> {
+    if (!prepRes) {
+      return null;
+    }
+    const {
+      client,
+      model,
+      instructions = 'Summarize the conversation so far in a few sentences, keeping facts, decisions and open questions.',
+    } = this.options;
+    const transcript = prepRes.messages
+      .map(message => `${message.role}: ${message.content}`)
+      .join('\n');
+    const response = await client.chat({
+      messages: [
+        { role: 'system', content: instructions },
+        {
+          role: 'user',
+          content: [
+            ...(prepRes.summary ? [`Summary so far: ${prepRes.summary}`] : []),
+            `Conversation:\n${transcript}`,
+          ].join('\n\n'),
+        },
+      ],
+      model,
+      signal,
+    });
+    this.reportUsage(response.usage, response.model);
+    return response.message.content;
+  }
+
+  async postAsync(
+    shared: TShared,
+    prepRes: { summary?: string; messages: ChatMessage[] } | null,
+    execRes: string | null
+  ): Promise<string> {
+    if (prepRes && execRes !== null) {
+      ConversationMemory.of(shared, this.options.key).summarize(
+        execRes,
+        prepRes.messages.length
+      );
+    }
+    return 'default';
+  }
+}
@@ -0,0 +1,360 @@
+// ZeroGraph TypeScript - Prompt templates, structured output and LLM nodes
+
+import { ActionType, AsyncNode, Node, SharedStore } from './core';
+import { OutputParseError } from './errors';
+import type { ChatMessage, ChatRequest, LLMClient, SyncLLMClient } from './llm';
+import { ConversationMemory } from './memory';
+import type { RetryPolicy } from './retry';
+
+export type OutputFormat = 'text' | 'json' | 'yaml';
+
+export type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+/**
+ * Fields a structured reply must have, by name: either a type or the list
+ * of strings the field may hold, e.g. `{ action: ['search', 'answer'] }`.
+ */
+export type OutputSchema = Record<string, FieldType | readonly string[]>;
+
+/**
+ * Replaces `{{key}}` placeholders with values from `values`. Keys may be
+ * dotted paths; values that are not strings are inserted as JSON.
+ */
+export function renderTemplate(
+  template: string,
+  values: Record<string, any>
+): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, key: string) => {
+    const value = key
+      .split('.')
+      .reduce<any>(
+        (obj, part) => (obj == null ? undefined : obj[part]),
+        values
+      );
+    if (value === undefined) {
+      throw new Error(`Prompt template references missing key '${key}'`);
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  });
+}
+
+/** Tells the model how to shape its reply. Empty for plain text. */
+export function formatInstructions(
+  format: OutputFormat,
+  schema?: OutputSchema
+): string {
+  if (format === 'text') {
+    return '';
+  }
+  const fields = Object.entries(schema ?? {}).map(([name, type]) =>
+    typeof type === 'string'
+      ? `- ${name}: ${type}`
+      : `- ${name}: one of ${type.join(', ')}`
+  );
+  return [
+    `Reply with a ${format.toUpperCase()} object in a fenced code block.`,
+    ...(fields.length > 0 ? ['Fields:', ...fields] : []),
+  ].join('\n');
+}
+
+function typeOf(value: unknown): string {
+  return Array.isArray(value)
+    ? 'array'
+    : value === null
+      ? 'null'
+      : typeof value;
+}
+
+// JSON is parsed out of the box; YAML needs the caller's parser. Without one
+// every reply would fail to parse, and every retry cost another model call.
+function parserFor(
+  format: OutputFormat,
+  parse?: (text: string) => unknown
+): (text: string) => unknown {
+  if (!parse && format === 'yaml') {
+    throw new Error("Format 'yaml' needs a parse function, e.g. yaml.load");
+  }
+  return parse ?? JSON.parse;
+}
+
+/**
+ * Parses a model reply in the given format, taking the first fenced code
+ * block if there is one, and checks it against the schema. Throws an
+ * OutputParseError describing every problem found. YAML needs a `parse`
+ * function; JSON defaults to JSON.parse.
+ */
+export function parseOutput(
+  text: string,
+  format: OutputFormat,
+  parse?: (text: string) => unknown,
+  schema?: OutputSchema
+): unknown {
+  if (format === 'text') {
+    return text;
+  }
+  const parser = parserFor(format, parse);
+  const block = /```[\w-]*\s*\n([\s\S]*?)```/.exec(text);
+  let value: unknown;
+  try {
+    value = parser((block ? block[1] : text).trim());
+  } catch (e) {
+    throw new OutputParseError(text, [
+      `not valid ${format.toUpperCase()}: ${(e as Error).message}`,
+    ]);
+  }
+  if (typeOf(value) !== 'object') {
+    throw new OutputParseError(text, [
+      `expected an object, got ${typeOf(value)}`,
+    ]);
+  }
+
+  const problems: string[] = [];
+  for (const [name, type] of Object.entries(schema ?? {})) {
+    const field = (value as Record<string, unknown>)[name];
+    if (field === undefined) {
+      problems.push(`missing field '${name}'`);
+    } else if (typeof type === 'string' && typeOf(field) !== type) {
+      problems.push(`'${name}' should be a ${type}, got ${typeOf(field)}`);
+    } else if (typeof type !== 'string' && !type.includes(field as string)) {
+      problems.push(`'${name}' should be one of ${type.join(', ')}`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new OutputParseError(text, problems);
+  }
+  return value;
+}
+
+export interface LLMNodeOptions<TClient = LLMClient> {
+  client: TClient;
+  /** Rendered from the shared store; see `renderTemplate`. */
+  prompt: string;
+  system?: string;
+  /**
+   * Shared store key of a ConversationMemory to send before the prompt. The
+   * prompt and the reply are appended to it.
+   */
+  memory?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** Defaults to 'text', which hands the reply through unparsed. */
+  format?: OutputFormat;
+  /** Parser for the reply; required for YAML, e.g. `yaml.load`. */
+  parse?: (text: string) => unknown;
+  schema?: OutputSchema;
+  /** Shared store key the result is written to. */
+  output?: string;
+  /** Field of the parsed reply returned as the action. */
+  actionField?: string;
+  /** Attempts, or a RetryPolicy; failed parses are asked again. Default 3. */
+  retry?: number | RetryPolicy;
+}
+
+/**
+ * The messages an LLM node sends, rendered from the shared store: the
+ * system prompt, the memory's recent messages and the prompt.
+ */
+export function llmMessages(
+  options: LLMNodeOptions<unknown>,
+  shared: object
+): ChatMessage[] {
+  const instructions = formatInstructions(
+    options.format ?? 'text',
+    options.schema
+  );
+  const prompt = renderTemplate(options.prompt, shared);
+  return [
+    ...(options.system
+      ? [{ role: 'system', content: renderTemplate(options.system, shared) }]
+      : []),
+    ...(options.memory
+      ? ConversationMemory.of(shared, options.memory).recent()
+      : []),
+    {
+      role: 'user',
+      content: instructions ? `${prompt}\n\n${instructions}` : prompt,
+    },
+  ] as ChatMessage[];
+}
+
+/**
+ * The request for those messages. Asking again after a reply failed to
+ * parse shows the model its reply and what was wrong with it.
+ */
+export function llmRequest(
+  options: LLMNodeOptions<unknown>,
+  messages: ChatMessage[],
+  reask: OutputParseError | undefined,
+  signal?: AbortSignal
+): ChatRequest {
+  return {
+    messages: reask
+      ? [
+          ...messages,
+          { role: 'assistant', content: reask.reply },
+          {
+            role: 'user',
+            content: `Your reply could not be used: ${reask.problems.join('; ')}. Reply again in the requested format.`,
+          },
+        ]
+      : messages,
+    model: options.model,
+    temperature: options.temperature,
+    maxTokens: options.maxTokens,
+    signal,
+  };
+}
+
+// Stores the result and records the prompt and reply in the memory, so the
+// next call sees this turn
+function llmPost(
+  options: LLMNodeOptions<unknown>,
+  shared: object,
+  messages: ChatMessage[],
+  reply: string | undefined,
+  output: any
+): ActionType {
+  if (options.memory && reply !== undefined) {
+    ConversationMemory.of(shared, options.memory)
+      .add(messages[messages.length - 1])
+      .assistant(reply);
+  }
+  if (options.output) {
+    (shared as any)[options.output] = output;
+  }
+  return options.actionField ? String(output[options.actionField]) : 'default';
+}
+
+/**
+ * Renders a prompt from the shared store, asks a SyncLLMClient and parses
+ * the reply. Replies that fail to parse or match the schema are retried,
+ * showing the model what went wrong. The result goes to `shared[output]`
+ * and, with `actionField`, picks the next node:
+ *
+ *   new LLMNode({
+ *     client,
+ *     prompt: 'Question: {{question}}\nDecide whether to search or answer.',
+ *     format: 'json',
+ *     schema: { action: ['search', 'answer'], query: 'string' },
+ *     output: 'decision',
+ *     actionField: 'action',
+ *   });
+ */
+export class LLMNode<
+  TShared extends object = SharedStore,
+  TOutput = any,
+  TAction extends string = ActionType,
+> extends Node<TShared, ChatMessage[], TOutput, TAction> {
+  protected options: LLMNodeOptions<SyncLLMClient>;
+  // The last reply that failed to parse, shown to the model on retry
+  protected reask?: OutputParseError;
+  // The last reply, recorded in the memory
+  protected reply?: string;
+
+  constructor(options: LLMNodeOptions<SyncLLMClient>) {
+    super(options.retry ?? 3);
+    parserFor(options.format ?? 'text', options.parse);
+    this.options = options;
+  }
+
+  prep(shared: TShared): ChatMessage[] {
+    return llmMessages(this.options, shared);
+  }
+
+  exec(messages: ChatMessage[], attempt: number): TOutput {
+    const { client, format = 'text', parse, schema } = this.options;
+    const response = client.chatSync(
+      llmRequest(this.options, messages, attempt > 1 ? this.reask : undefined)
+    );
+    this.reportUsage(response.usage, response.model);
+    this.reply = response.message.content;
+    try {
+      return parseOutput(
+        response.message.content,
+        format,
+        parse,
+        schema
+      ) as TOutput;
+    } catch (e) {
+      this.reask = e as OutputParseError;
+      throw e;
+    }
+  }
+
+  post(shared: TShared, prepRes: ChatMessage[], execRes: TOutput): TAction {
+    return llmPost(
+      this.options,
+      shared,
+      prepRes,
+      this.reply,
+      execRes
+    ) as TAction;
+  }
+}
+
+/** LLMNode for any LLMClient, including ones that call over the network. */
+export class AsyncLLMNode<
+  TShared extends object = SharedStore,
+  TOutput = any,
+  TAction extends string = ActionType,
+> extends AsyncNode<TShared, ChatMessage[], TOutput, TAction> {
+  protected options: LLMNodeOptions;
+  // The last reply that failed to parse, shown to the model on retry
+  protected reask?: OutputParseError;
+  // The last reply, recorded in the memory
+  protected reply?: string;
+
+  constructor(options: LLMNodeOptions) {
+    super(options.retry ?? 3);
+    parserFor(options.format ?? 'text', options.parse);
+    this.options = options;
+  }
+
+  async prepAsync(shared: TShared): Promise<ChatMessage[]> {
+    return llmMessages(this.options, shared);
+  }
+
+  async execAsync(
+    messages: ChatMessage[],
+    signal: AbortSignal,
+    attempt: number
+  ): Promise<TOutput> {
+    const { client, format = 'text', parse, schema } = this.options;
+    const response = await client.chat(
+      llmRequest(
+        this.options,
+        messages,
+        attempt > 1 ? this.reask : undefined,
+        signal
+      )
+    );
+    this.reportUsage(response.usage, response.model);
+    this.reply = response.message.content;
+    try {
+      return parseOutput(
+        response.message.content,
+        format,
+        parse,
+        schema
+      ) as TOutput;
+    } catch (e) {
+      this.reask = e as OutputParseError;
+      throw e;
+    }
+  }
+
+  async postAsync(
+    shared: TShared,
+    prepRes: ChatMessage[],
+    execRes: TOutput
+  ): Promise<TAction> {
+    return llmPost(
+      this.options,
+      shared,
+      prepRes,
+      this.reply,
+      execRes
+    ) as TAction;
+  }
+}
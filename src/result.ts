@@ -0,0 +1,112 @@
+// ZeroGraph TypeScript - Structured run results
+
+import type { ActionType } from './core';
+import { FlowEventSource, listenToRun } from './events';
+import { PricingTable, UsageMeter, UsageSummary } from './usage';
+
+export interface NodeVisit {
+  nodeId: string;
+  /** Ids from the executed flow down to the node. */
+  path: string[];
+  /** Missing when the node threw. */
+  action?: ActionType;
+  error?: Error;
+  durationMs: number;
+  /** Exec attempts that failed and were retried. */
+  retries: number;
+}
+
+/** An exec failure that the node's fallback turned into a result. */
+export interface RecoveredError {
+  nodeId: string;
+  path: string[];
+  error: Error;
+  attempts: number;
+}
+
+export interface FlowRunResult<TAction extends string = ActionType> {
+  action: TAction;
+  /** Nodes in the order they started, nested flows before their nodes. */
+  nodes: NodeVisit[];
+  /** Retries across all nodes. */
+  retries: number;
+  recovered: RecoveredError[];
+  /** Tokens and cost reported by the nodes. */
+  usage: UsageSummary;
+  durationMs: number;
+}
+
+/**
+ * Listens to the events of the flow's run at step `root` (see `listenToRun`)
+ * until `finish` builds the result of the run.
+ */
+export function recordRun(
+  flow: FlowEventSource,
+  root: number,
+  pricing: PricingTable = {}
+): {
+  finish<TAction extends string>(action: TAction): FlowRunResult<TAction>;
+  dispose(): void;
+} {
+  const start = Date.now();
+  const visits = new Map<number, NodeVisit>();
+  const fallbacks = new Map<number, RecoveredError[]>();
+  const recovered: RecoveredError[] = [];
+  const meter = new UsageMeter(pricing);
+
+  const unlisten = listenToRun(flow, root, {
+    nodeStart: e => {
+      visits.set(e.step, {
+        nodeId: e.nodeId,
+        path: e.path,
+        durationMs: 0,
+        retries: 0,
+      });
+    },
+    execRetry: e => {
+      visits.get(e.step)!.retries++;
+    },
+    // Only counts as recovered once the node ends without throwing
+    execFallback: e => {
+      const pending = fallbacks.get(e.step) ?? [];
+      pending.push({
+        nodeId: e.nodeId,
+        path: e.path,
+        error: e.error,
+        attempts: e.attempts,
+      });
+      fallbacks.set(e.step, pending);
+    },
+    nodeEnd: e => {
+      Object.assign(visits.get(e.step)!, {
+        action: e.action,
+        durationMs: e.durationMs,
+      });
+      recovered.push(...(fallbacks.get(e.step) ?? []));
+    },
+    usage: e => {
+      meter.add(e.path, e);
+    },
+    nodeError: e => {
+      Object.assign(visits.get(e.step)!, {
+        error: e.error,
+        durationMs: e.durationMs,
+      });
+    },
+  });
+
+  return {
+    finish: action => {
+      const nodes = [...visits.values()];
+      return {
+        action,
+        nodes,
+        retries: nodes.reduce((sum, visit) => sum + visit.retries, 0),
+        recovered,
+        usage: meter.summary(),
+        durationMs: Date.now() - start,
+      };
+    },
+    dispose: unlisten,
+  };
+}
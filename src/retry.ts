@@ -0,0 +1,65 @@
+// ZeroGraph TypeScript - Retry policies
+
+export interface RetryPolicy {
+  /** Attempts including the first one. Defaults to 1 (no retries). */
+  maxAttempts?: number;
+  /** Delay before the first retry. Defaults to 0. */
+  delayMs?: number;
+  /** 'fixed' waits `delayMs` every time; 'exponential' multiplies it by `factor` per retry. */
+  backoff?: 'fixed' | 'exponential';
+  /** Growth factor for exponential backoff. Defaults to 2. */
+  factor?: number;
+  /** Upper bound for a single delay. */
+  maxDelayMs?: number;
+  /** Waits a random time between 0 and the computed delay ("full jitter"). */
+  jitter?: boolean;
+  /** Decides whether a failed attempt is retried. Defaults to always. */
+  retryOn?: (error: Error, attempt: number) => boolean;
+  /** Caps retries across every node sharing the budget. */
+  budget?: RetryBudget;
+}
+
+/**
+ * A pool of retries shared between nodes, so a failing dependency cannot
+ * multiply load by every node's (or batch item's) retry count.
+ */
+export class RetryBudget {
+  constructor(public remaining: number) {}
+
+  /** Takes one retry from the budget, if any is left. */
+  take(): boolean {
+    if (this.remaining <= 0) {
+      return false;
+    }
+    this.remaining--;
+    return true;
+  }
+}
+
+/**
+ * Whether to retry after `attempt` (1-based) failed with `error`. Consumes
+ * budget only when everything else allows a retry.
+ */
+export function shouldRetry(
+  policy: RetryPolicy,
+  error: Error,
+  attempt: number
+): boolean {
+  return (
+    attempt < (policy.maxAttempts ?? 1) &&
+    (policy.retryOn?.(error, attempt) ?? true) &&
+    (policy.budget?.take() ?? true)
+  );
+}
+
+/** Milliseconds to wait after `attempt` (1-based) failed. */
+export function retryDelay(policy: RetryPolicy, attempt: number): number {
+  let delay = policy.delayMs ?? 0;
+  if (policy.backoff === 'exponential') {
+    delay *= (policy.factor ?? 2) ** (attempt - 1);
+  }
+  if (policy.maxDelayMs !== undefined) {
+    delay = Math.min(delay, policy.maxDelayMs);
+  }
+  return policy.jitter ? Math.random() * delay : delay;
+}
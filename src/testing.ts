@@ -0,0 +1,215 @@
+// ZeroGraph TypeScript - Deterministic flow testing (zero-graph/testing)
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ActionType,
+  AsyncFlow,
+  AsyncNode,
+  BaseNode,
+  Flow,
+  FlowListener,
+} from './index';
+
+/** One node run, in the order the flow ran it. */
+export interface NodeRun {
+  /** Ids from the tested flow down to the node, joined with '/'. */
+  id: string;
+  prepRes?: unknown;
+  execRes?: unknown;
+  /** Missing when the node threw. */
+  action?: ActionType;
+}
+
+export interface FlowTestResult<TShared extends object> {
+  /** Action the flow returned. */
+  action: ActionType;
+  /** Ids of the nodes that ran, in order; nested flows appear before their nodes. */
+  path: string[];
+  /** Actions returned by those nodes, in the same order. */
+  actions: ActionType[];
+  nodes: NodeRun[];
+  shared: TShared;
+}
+
+/**
+ * Recorded `exec` results per node id, in call order. Wrapped in objects so
+ * results that JSON cannot represent, such as `undefined`, survive.
+ */
+export type ExecFixture = Record<string, { execRes?: unknown }[]>;
+
+export interface FlowTestOptions {
+  /** JSON file holding recorded `exec` results. */
+  fixture?: string;
+  /**
+   * 'record' runs every node and saves its `exec` results to the fixture;
+   * 'replay' returns the saved results without calling `exec`. Defaults to
+   * replaying when the fixture exists and recording otherwise.
+   */
+  mode?: 'record' | 'replay';
+}
+
+/** Replacement lifecycle methods; async nodes may return promises. */
+export interface NodeStub {
+  prep?: (shared: any) => unknown;
+  exec?: (prepRes: any, attempt: number) => unknown;
+  post?: (shared: any, prepRes: any, execRes: any) => ActionType;
+}
+
+// Leaf nodes reachable from the flow, descending into nested flows
+function leafNodes(
+  flow: Flow<any, any, any>,
+  prefix: string[] = []
+): [string, BaseNode<any>][] {
+  return flow
+    .nodes()
+    .flatMap(node =>
+      node instanceof Flow
+        ? leafNodes(node, [...prefix, node.id])
+        : [[[...prefix, node.id].join('/'), node] as [string, BaseNode<any>]]
+    );
+}
+
+// Sets own properties on a node. Flows copy own properties into the clone
+// they run, so the overrides apply to every run until restored.
+function override(node: object, methods: Record<string, unknown>): () => void {
+  const saved = Object.keys(methods).map(
+    key => [key, Object.getOwnPropertyDescriptor(node, key)] as const
+  );
+  Object.assign(node, methods);
+  return () => {
+    for (const [key, descriptor] of saved) {
+      if (descriptor) {
+        Object.defineProperty(node, key, descriptor);
+      } else {
+        delete (node as any)[key];
+      }
+    }
+  };
+}
+
+function readFixture(file: string): ExecFixture {
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+function writeFixture(file: string, fixture: ExecFixture): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, `${JSON.stringify(fixture, null, 2)}\n`);
+}
+
+/**
+ * Replaces lifecycle methods of the node with the given id until the
+ * returned function is called. Nested nodes are addressed by their path,
+ * e.g. `'ReviewFlow/CritiqueNode'`. A function stands in for `exec`.
+ */
+export function stubNode(
+  flow: Flow<any, any, any>,
+  nodeId: string,
+  impl: NodeStub | NonNullable<NodeStub['exec']>
+): () => void {
+  let node: BaseNode<any> | undefined = flow;
+  for (const id of nodeId.split('/')) {
+    node = node instanceof Flow ? node.getNode(id) : undefined;
+  }
+  if (!node) {
+    throw new Error(`No node '${nodeId}' in flow`);
+  }
+
+  const stub = typeof impl === 'function' ? { exec: impl } : impl;
+  const methods: Record<string, unknown> = {};
+  for (const [name, fn] of Object.entries(stub) as [
+    string,
+    (...args: any[]) => unknown,
+  ][]) {
+    if (node instanceof AsyncNode) {
+      methods[`${name}Async`] = async (...args: any[]) =>
+        // execAsync takes the signal before the attempt
+        name === 'exec' ? fn(args[0], args[2]) : fn(...args);
+    } else {
+      methods[name] = fn;
+    }
+  }
+  return override(node, methods);
+}
+
+/**
+ * Runs the flow and records what it did: the nodes it ran, their `prep` and
+ * `exec` results and actions, and the final shared store. With a fixture,
+ * `exec` results are recorded once and replayed afterwards, so flows that
+ * call LLMs or other services run offline and deterministically.
+ */
+export async function runFlowForTest<TShared extends object>(
+  flow: Flow<TShared, any, any>,
+  shared: TShared = {} as TShared,
+  options: FlowTestOptions = {}
+): Promise<FlowTestResult<TShared>> {
+  const { fixture: file } = options;
+  const mode =
+    options.mode ?? (file && fs.existsSync(file) ? 'replay' : 'record');
+  const fixture: ExecFixture =
+    file && mode === 'replay' ? readFixture(file) : {};
+  const replayed: Record<string, number> = {};
+
+  const runs = new Map<number, NodeRun>();
+  const nodes: NodeRun[] = [];
+  const onStart: FlowListener<'nodeStart'> = event => {
+    const run: NodeRun = { id: event.path.join('/') };
+    runs.set(event.step, run);
+    nodes.push(run);
+  };
+  const onEnd: FlowListener<'nodeEnd'> = event => {
+    runs.get(event.step)!.action = event.action;
+  };
+
+  const restores = leafNodes(flow).map(([id, node]) => {
+    const original = (node as any)._exec;
+    const async = node instanceof AsyncNode;
+    return override(node, {
+      _exec(this: { _ctx?: { step: number } }, prepRes: any, ...rest: any[]) {
+        const run = runs.get(this._ctx!.step)!;
+        run.prepRes = prepRes;
+        const done = (execRes: unknown) => {
+          run.execRes = execRes;
+          if (mode === 'record') {
+            (fixture[id] ??= []).push({ execRes });
+          }
+          return execRes;
+        };
+
+        if (file && mode === 'replay') {
+          const n = (replayed[id] = (replayed[id] ?? 0) + 1);
+          const entry = fixture[id]?.[n - 1];
+          if (!entry) {
+            throw new Error(`No recorded exec result for '${id}' (call ${n})`);
+          }
+          return async
+            ? Promise.resolve(done(entry.execRes))
+            : done(entry.execRes);
+        }
+        const result = original.call(this, prepRes, ...rest);
+        return async ? result.then(done) : done(result);
+      },
+    });
+  });
+
+  flow.on('nodeStart', onStart).on('nodeEnd', onEnd);
+  try {
+    const action =
+      flow instanceof AsyncFlow
+        ? await flow.runAsync(shared)
+        : flow.run(shared);
+    if (file && mode === 'record') {
+      writeFixture(file, fixture);
+    }
+    return {
+      action,
+      path: nodes.map(run => run.id),
+      actions: nodes.map(run => run.action!),
+      nodes,
+      shared,
+    };
+  } finally {
+    flow.off('nodeStart', onStart).off('nodeEnd', onEnd);
+    restores.forEach(restore => restore());
+  }
+}
@@ -0,0 +1,194 @@
+// ZeroGraph TypeScript - Tools and agents
+
+import { AsyncNode, SharedStore } from './core';
+import { MaxStepsExceededError } from './errors';
+import type { ChatMessage, ToolCall, ToolSpec } from './llm';
+import { ConversationMemory } from './memory';
+import { LLMNodeOptions, llmMessages, llmRequest } from './prompt';
+
+export interface Tool<TArgs = any> extends ToolSpec {
+  /** Its result is shown to the model, as JSON unless it is a string. */
+  handler: (args: TArgs, signal: AbortSignal) => unknown | Promise<unknown>;
+}
+
+/** The tools an agent may call, by name. */
+export class ToolRegistry {
+  private tools = new Map<string, Tool>();
+
+  constructor(tools: Tool[] = []) {
+    tools.forEach(tool => this.register(tool));
+  }
+
+  register<TArgs>(tool: Tool<TArgs>): this {
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /** What the model is told about the tools; handlers stay local. */
+  specs(): ToolSpec[] {
+    return [...this.tools.values()].map(
+      ({ name, description, parameters }) => ({
+        name,
+        description,
+        parameters,
+      })
+    );
+  }
+
+  /**
+   * Runs the tool the model asked for and returns the observation. Throws
+   * for unknown tools and for arguments that are not a JSON object or lack
+   * a required parameter.
+   */
+  async call(
+    call: ToolCall,
+    signal: AbortSignal = new AbortController().signal
+  ): Promise<string> {
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      throw new Error(`Unknown tool '${call.name}'`);
+    }
+    let args: Record<string, unknown>;
+    try {
+      args = JSON.parse(call.arguments || '{}');
+    } catch {
+      throw new Error(`Arguments for '${call.name}' are not valid JSON`);
+    }
+    if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+      throw new Error(`Arguments for '${call.name}' must be a JSON object`);
+    }
+    const required = (tool.parameters.required ?? []) as string[];
+    const missing = required.filter(name => !(name in args));
+    if (missing.length > 0) {
+      throw new Error(
+        `Missing arguments for '${call.name}': ${missing.join(', ')}`
+      );
+    }
+
+    const result = await tool.handler(args, signal);
+    return typeof result === 'string' ? result : JSON.stringify(result);
+  }
+}
+
+export interface AgentNodeOptions
+  extends Omit<
+    LLMNodeOptions,
+    'format' | 'parse' | 'schema' | 'actionField' | 'output'
+  > {
+  tools: ToolRegistry;
+  /** Model calls before giving up. Defaults to 10. */
+  maxSteps?: number;
+  /** Shared store key for the final answer. Defaults to 'answer'. */
+  output?: string;
+  /** Shared store key for the AgentSteps taken. Defaults to 'agentSteps'. */
+  steps?: string;
+}
+
+/** One tool call of an agent and what it observed. */
+export interface AgentStep {
+  tool: string;
+  arguments: string;
+  observation: string;
+  /** Set when the call failed; the observation holds the error. */
+  failed?: boolean;
+}
+
+/**
+ * Runs a tool-calling loop in a single node: the model either calls tools
+ * from the registry, whose results it sees on the next step, or answers.
+ * Tool errors are shown to the model rather than thrown. Writes the answer
+ * and the steps taken to the shared store, adds the prompt and the answer
+ * to the memory if there is one, and returns 'answer'; throws a
+ * MaxStepsExceededError carrying the steps if the model has not answered
+ * after `maxSteps`.
+ */
+export class AgentNode<TShared extends object = SharedStore> extends AsyncNode<
+  TShared,
+  ChatMessage[],
+  { answer: string; steps: AgentStep[] },
+  'answer'
+> {
+  protected options: AgentNodeOptions;
+
+  constructor(options: AgentNodeOptions) {
+    super(options.retry ?? 1);
+    this.options = options;
+  }
+
+  async prepAsync(shared: TShared): Promise<ChatMessage[]> {
+    return llmMessages(this.options, shared);
+  }
+
+  async execAsync(
+    prepRes: ChatMessage[],
+    signal: AbortSignal
+  ): Promise<{ answer: string; steps: AgentStep[] }> {
+    const { client, tools, maxSteps = 10 } = this.options;
+    const messages = [...prepRes];
+    const steps: AgentStep[] = [];
+    for (let step = 0; step < maxSteps; step++) {
+      const response = await client.chat({
+        ...llmRequest(this.options, messages, undefined, signal),
+        tools: tools.specs(),
+      });
+      this.reportUsage(response.usage, response.model);
+      const { message } = response;
+      if (!message.toolCalls?.length) {
+        return { answer: message.content, steps };
+      }
+      messages.push(message);
+      for (const call of message.toolCalls) {
+        const record: AgentStep = {
+          tool: call.name,
+          arguments: call.arguments,
+          observation: '',
+        };
+        try {
+          record.observation = await tools.call(call, signal);
+        } catch (e) {
+          if (signal.aborted) {
+            throw e;
+          }
+          record.observation = `Error: ${(e as Error).message}`;
+          record.failed = true;
+        }
+        steps.push(record);
+        messages.push({
+          role: 'tool',
+          name: call.name,
+          toolCallId: call.id,
+          content: record.observation,
+        });
+      }
+    }
+    throw new MaxStepsExceededError(
+      this.id,
+      'maxSteps',
+      maxSteps,
+      steps.map(step => step.tool),
+      steps
+    );
+  }
+
+  async postAsync(
+    shared: TShared,
+    prepRes: ChatMessage[],
+    execRes: { answer: string; steps: AgentStep[] }
+  ): Promise<'answer'> {
+    const { output = 'answer', steps = 'agentSteps', memory } = this.options;
+    if (memory) {
+      ConversationMemory.of(shared, memory)
+        .add(prepRes[prepRes.length - 1])
+        .assistant(execRes.answer);
+    }
+    Object.assign(shared, {
+      [output]: execRes.answer,
+      [steps]: execRes.steps,
+    });
+    return 'answer';
+  }
+}
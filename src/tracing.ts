@@ -0,0 +1,217 @@
+// ZeroGraph TypeScript - Tracing spans for flow runs
+
+import type { Flow } from './core';
+import type { FlowEventName, FlowListener } from './events';
+
+export type AttributeValue = string | number | boolean | string[];
+export type Attributes = Record<string, AttributeValue>;
+
+export const SpanStatusCode = { UNSET: 0, OK: 1, ERROR: 2 } as const;
+export type SpanStatusCode =
+  (typeof SpanStatusCode)[keyof typeof SpanStatusCode];
+
+/**
+ * The subset of an OpenTelemetry span that ZeroGraph uses. OTel spans satisfy
+ * it as they are.
+ */
+export interface Span {
+  setAttribute(key: string, value: AttributeValue): unknown;
+  addEvent(name: string, attributes?: Attributes, time?: number): unknown;
+  recordException(exception: Error, time?: number): unknown;
+  setStatus(status: { code: SpanStatusCode; message?: string }): unknown;
+  end(endTime?: number): void;
+}
+
+export interface SpanOptions {
+  attributes?: Attributes;
+  startTime?: number;
+  parent?: Span;
+}
+
+/**
+ * Starts spans. To use an OpenTelemetry tracer, turn `parent` into a context:
+ *
+ *   const tracer: Tracer = {
+ *     startSpan: (name, { parent, ...options }) =>
+ *       otelTracer.startSpan(name, options,
+ *         parent && trace.setSpan(context.active(), parent as OtelSpan)),
+ *   };
+ */
+export interface Tracer {
+  startSpan(name: string, options: SpanOptions): Span;
+}
+
+/**
+ * Emits a span per flow run and a child span per node run, with retries and
+ * fallbacks as span events and failures recorded as exceptions. Nested flows
+ * get their spans under the node span they ran as. Returns a function that
+ * stops tracing.
+ */
+export function traceFlow(
+  flow: Flow<any, any, any>,
+  tracer: Tracer
+): () => void {
+  const flowSpans = new Map<number, Span>();
+  const nodeSpans = new Map<number, Span>();
+
+  const end = (
+    spans: Map<number, Span>,
+    step: number,
+    time: number,
+    error?: Error
+  ) => {
+    const span = spans.get(step);
+    if (!span) {
+      return;
+    }
+    if (error) {
+      span.recordException(error, time);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+    } else {
+      span.setStatus({ code: SpanStatusCode.OK });
+    }
+    span.end(time);
+    spans.delete(step);
+  };
+
+  const listeners: { [E in FlowEventName]?: FlowListener<E> } = {
+    flowStart: e => {
+      const id = e.path.length > 0 ? e.path[e.path.length - 1] : flow.id;
+      flowSpans.set(
+        e.step,
+        tracer.startSpan(`flow ${id}`, {
+          parent: nodeSpans.get(e.step),
+          startTime: e.timestamp,
+          attributes: {
+            'zerograph.flow.id': id,
+            'zerograph.path': e.path,
+          },
+        })
+      );
+    },
+    flowEnd: e => {
+      flowSpans.get(e.step)?.setAttribute('zerograph.action', e.action);
+      end(flowSpans, e.step, e.timestamp);
+    },
+    flowError: e => end(flowSpans, e.step, e.timestamp, e.error),
+    nodeStart: e => {
+      nodeSpans.set(
+        e.step,
+        tracer.startSpan(`node ${e.nodeId}`, {
+          parent: flowSpans.get(e.parentStep),
+          startTime: e.timestamp,
+          attributes: {
+            'zerograph.node.id': e.nodeId,
+            'zerograph.path': e.path,
+          },
+        })
+      );
+    },
+    execRetry: e => {
+      nodeSpans.get(e.step)?.addEvent(
+        'exec.retry',
+        {
+          'zerograph.attempt': e.attempt,
+          'exception.type': e.error.name,
+          'exception.message': e.error.message,
+        },
+        e.timestamp
+      );
+    },
+    execFallback: e => {
+      nodeSpans.get(e.step)?.addEvent(
+        'exec.fallback',
+        {
+          'zerograph.attempts': e.attempts,
+          'exception.type': e.error.name,
+          'exception.message': e.error.message,
+        },
+        e.timestamp
+      );
+    },
+    usage: e => {
+      nodeSpans.get(e.step)?.addEvent(
+        'llm.usage',
+        {
+          'gen_ai.request.model': e.model ?? 'unknown',
+          'gen_ai.usage.input_tokens': e.promptTokens,
+          'gen_ai.usage.output_tokens': e.completionTokens,
+        },
+        e.timestamp
+      );
+    },
+    nodeEnd: e => {
+      nodeSpans.get(e.step)?.setAttribute('zerograph.action', e.action);
+      end(nodeSpans, e.step, e.timestamp);
+    },
+    nodeError: e => end(nodeSpans, e.step, e.timestamp, e.error),
+  };
+
+  const events = Object.keys(listeners) as FlowEventName[];
+  for (const event of events) {
+    flow.on(event, listeners[event] as FlowListener<typeof event>);
+  }
+  return () => {
+    for (const event of events) {
+      flow.off(event, listeners[event] as FlowListener<typeof event>);
+    }
+  };
+}
+
+export class InMemorySpan implements Span {
+  attributes: Attributes;
+  events: { name: string; attributes: Attributes; time: number }[] = [];
+  exceptions: Error[] = [];
+  status: { code: SpanStatusCode; message?: string } = {
+    code: SpanStatusCode.UNSET,
+  };
+  startTime: number;
+  endTime?: number;
+  parent?: InMemorySpan;
+
+  constructor(
+    public name: string,
+    options: SpanOptions
+  ) {
+    this.attributes = { ...options.attributes };
+    this.startTime = options.startTime ?? Date.now();
+    this.parent = options.parent as InMemorySpan | undefined;
+  }
+
+  setAttribute(key: string, value: AttributeValue): this {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  addEvent(name: string, attributes: Attributes = {}, time?: number): this {
+    this.events.push({ name, attributes, time: time ?? Date.now() });
+    return this;
+  }
+
+  recordException(exception: Error): this {
+    this.exceptions.push(exception);
+    return this;
+  }
+
+  setStatus(status: { code: SpanStatusCode; message?: string }): this {
+    this.status = status;
+    return this;
+  }
+
+  end(endTime?: number): void {
+    this.endTime = endTime ?? Date.now();
+  }
+}
+
+/**
+ * Keeps every span in memory, for tests and local debugging.
+ */
+export class InMemoryTracer implements Tracer {
+  spans: InMemorySpan[] = [];
+
+  startSpan(name: string, options: SpanOptions): InMemorySpan {
+    const span = new InMemorySpan(name, options);
+    this.spans.push(span);
+    return span;
+  }
+}
@@ -0,0 +1,88 @@
+// ZeroGraph TypeScript - Token usage and cost accounting
+
+import type { TokenUsage } from './llm';
+
+/** What a node reports after a model call. */
+export interface UsageReport extends TokenUsage {
+  model?: string;
+}
+
+/** Prices in US dollars per million tokens. */
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+/** Prices by model name, as reported by the client. */
+export type PricingTable = Record<string, ModelPrice>;
+
+export interface UsageTotals extends TokenUsage {
+  /** Model calls reported. */
+  calls: number;
+  /** In US dollars; calls to models missing from the pricing table count 0. */
+  cost: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  /** By node path, joined with '/'. */
+  byNode: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+}
+
+/** Caps what an AsyncFlow run may spend. */
+export interface UsageBudget {
+  maxTokens?: number;
+  /** In US dollars, priced with the flow's pricing table. */
+  maxCost?: number;
+}
+
+export function usageCost(report: UsageReport, pricing: PricingTable): number {
+  const price = report.model ? pricing[report.model] : undefined;
+  return price
+    ? (report.promptTokens * price.prompt +
+        report.completionTokens * price.completion) /
+        1_000_000
+    : 0;
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+  };
+}
+
+/** Adds up usage reports per run, node and model. */
+export class UsageMeter {
+  private usage: UsageSummary = {
+    total: emptyTotals(),
+    byNode: {},
+    byModel: {},
+  };
+
+  constructor(private pricing: PricingTable = {}) {}
+
+  /** Adds a report for the node at `path` and returns the run total. */
+  add(path: string[], report: UsageReport): UsageTotals {
+    const cost = usageCost(report, this.pricing);
+    const node = (this.usage.byNode[path.join('/')] ??= emptyTotals());
+    const model = (this.usage.byModel[report.model ?? 'unknown'] ??=
+      emptyTotals());
+    for (const totals of [this.usage.total, node, model]) {
+      totals.calls++;
+      totals.promptTokens += report.promptTokens;
+      totals.completionTokens += report.completionTokens;
+      totals.totalTokens += report.totalTokens;
+      totals.cost += cost;
+    }
+    return this.usage.total;
+  }
+
+  summary(): UsageSummary {
+    return this.usage;
+  }
+}
@@ -0,0 +1,148 @@
+// ZeroGraph TypeScript - Static validation of flow graphs
+
+import { ActionType, AsyncFlow, AsyncNode, BaseNode, Flow } from './core';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export type DiagnosticCode =
+  | 'missing-start'
+  | 'duplicate-id'
+  | 'async-in-sync-flow'
+  | 'unreachable-node'
+  | 'unhandled-action'
+  | 'dangling-successor';
+
+export interface FlowDiagnostic {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  /** Ids from the validated flow down to the offending node or flow. */
+  path: string[];
+  action?: ActionType;
+}
+
+/**
+ * Checks a flow's graph without running it, including nested flows:
+ * - errors: no start node, duplicate node ids, async nodes or flows inside a
+ *   sync Flow (which would throw 'Use runAsync.'), successors that are not
+ *   nodes
+ * - warnings: nodes wired into the flow but unreachable from its start
+ *   node, and, for nodes that declare their `static actions`, actions
+ *   without a successor and successors for actions never returned
+ */
+export function validateFlow(flow: Flow<any, any, any>): FlowDiagnostic[] {
+  const diagnostics: FlowDiagnostic[] = [];
+  check(flow, [], diagnostics);
+  return diagnostics;
+}
+
+function check(
+  flow: Flow<any, any, any>,
+  path: string[],
+  diagnostics: FlowDiagnostic[]
+): void {
+  const report = (
+    severity: DiagnosticSeverity,
+    code: DiagnosticCode,
+    message: string,
+    at: string[] = path,
+    action?: ActionType
+  ) => {
+    diagnostics.push({ severity, code, message, path: at, action });
+  };
+
+  let nodes: BaseNode<any, any, any, any>[];
+  try {
+    nodes = flow.nodes();
+  } catch (e) {
+    report('error', 'duplicate-id', (e as Error).message);
+    return;
+  }
+  if (nodes.length === 0) {
+    report('error', 'missing-start', `'${flow.id}' has no start node`);
+    return;
+  }
+
+  for (const node of nodes) {
+    const at = [...path, node.id];
+    const declared = (node.constructor as typeof BaseNode).actions;
+    const wired = Object.keys(node.successors);
+
+    if (
+      !(flow instanceof AsyncFlow) &&
+      (node instanceof AsyncNode || node instanceof AsyncFlow)
+    ) {
+      report(
+        'error',
+        'async-in-sync-flow',
+        `'${node.id}' is async but '${flow.id}' is not an AsyncFlow`,
+        at
+      );
+    }
+
+    for (const [action, successor] of Object.entries(node.successors)) {
+      if (!(successor instanceof BaseNode)) {
+        report(
+          'error',
+          'dangling-successor',
+          `'${node.id}' action '${action}' does not lead to a node`,
+          at,
+          action
+        );
+      } else if (
+        declared &&
+        !declared.includes(action) &&
+        // Flows take 'error' edges themselves when a node throws
+        action !== 'error'
+      ) {
+        report(
+          'warning',
+          'dangling-successor',
+          `'${node.id}' never returns '${action}'`,
+          at,
+          action
+        );
+      }
+    }
+
+    // A node without successors ends the flow whatever it returns
+    if (declared && wired.length > 0) {
+      for (const action of declared.filter(a => !wired.includes(a))) {
+        report(
+          'warning',
+          'unhandled-action',
+          `'${node.id}' may return '${action}', which has no successor`,
+          at,
+          action
+        );
+      }
+    }
+
+    if (node instanceof Flow) {
+      check(node, at, diagnostics);
+    }
+  }
+
+  // Nodes that lead into the graph but are never reached from its start
+  const queue = [...nodes];
+  const seen = new Set(nodes);
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    for (const source of (node as any)._sources as BaseNode<any>[]) {
+      if (
+        seen.has(source) ||
+        !Object.values(source.successors).includes(node)
+      ) {
+        continue;
+      }
+      seen.add(source);
+      queue.push(source);
+      report(
+        'warning',
+        'unreachable-node',
+        `'${source.id}' is never reached from the start node`,
+        [...path, source.id]
+      );
+    }
+  }
+}
@@ -0,0 +1,236 @@
+// ZeroGraph TypeScript - Mermaid and Graphviz export of flow graphs
+
+import {
+  ActionType,
+  AsyncBatchFlow,
+  AsyncBatchNode,
+  AsyncFlow,
+  AsyncNode,
+  AsyncParallelBatchFlow,
+  AsyncParallelBatchNode,
+  BaseNode,
+  BatchFlow,
+  BatchNode,
+  Flow,
+  Join,
+  Parallel,
+} from './core';
+
+export interface GraphExportOptions {
+  /** Layout direction: top-to-bottom (default) or left-to-right. */
+  direction?: 'TB' | 'LR';
+}
+
+interface NodeKind {
+  async: boolean;
+  batch: boolean;
+  parallel: boolean;
+}
+
+interface GraphNode {
+  key: string;
+  label: string;
+  kind: NodeKind;
+  /** Set for nested flows. */
+  graph?: Graph;
+}
+
+interface Graph {
+  nodes: GraphNode[];
+  edges: { from: GraphNode; to: GraphNode; action: ActionType }[];
+}
+
+function kindOf(node: BaseNode<any, any, any, any>): NodeKind {
+  return {
+    async: node instanceof AsyncNode || node instanceof AsyncFlow,
+    batch:
+      node instanceof BatchNode ||
+      node instanceof AsyncBatchNode ||
+      node instanceof AsyncParallelBatchNode ||
+      node instanceof BatchFlow ||
+      node instanceof AsyncBatchFlow ||
+      node instanceof AsyncParallelBatchFlow,
+    // Forks and the joins their branches meet at
+    parallel:
+      node instanceof AsyncParallelBatchNode ||
+      node instanceof AsyncParallelBatchFlow ||
+      node instanceof Parallel ||
+      node instanceof Join,
+  };
+}
+
+function kindLabel(kind: NodeKind): string {
+  return [
+    kind.async && 'async',
+    kind.parallel && 'parallel',
+    kind.batch && 'batch',
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+// Walks a flow into a graph model. Keys are the ids made safe for both
+// formats and prefixed with the enclosing flows' keys. Ids that would still
+// clash, such as `fetch-data` and `fetch_data`, get a numbered suffix; the
+// labels keep the ids as they are.
+function describe(
+  flow: Flow<any, any, any>,
+  prefix: string = '',
+  used: Set<string> = new Set()
+): Graph {
+  const nodes = flow.nodes();
+  const byNode = new Map<BaseNode<any, any, any, any>, GraphNode>();
+
+  for (const node of nodes) {
+    const base = `${prefix}${node.id.replace(/\W/g, '_')}`;
+    let key = base;
+    for (let n = 2; used.has(key); n++) {
+      key = `${base}_${n}`;
+    }
+    used.add(key);
+    byNode.set(node, {
+      key,
+      label: node.id,
+      kind: kindOf(node),
+      graph:
+        node instanceof Flow ? describe(node, `${key}__`, used) : undefined,
+    });
+  }
+
+  const edges: Graph['edges'] = [];
+  for (const node of nodes) {
+    for (const [action, successor] of Object.entries(node.successors)) {
+      edges.push({
+        from: byNode.get(node)!,
+        to: byNode.get(successor)!,
+        action,
+      });
+    }
+  }
+  return { nodes: [...byNode.values()], edges };
+}
+
+function escape(label: string): string {
+  return label.replace(/"/g, '\\"');
+}
+
+/**
+ * Renders a flow as a Mermaid flowchart. Nested flows become subgraphs,
+ * batch nodes are drawn as subroutines and async nodes as stadiums, with
+ * classes (`async`, `batch`, `parallel`) for further styling.
+ */
+export function toMermaid(
+  flow: Flow<any, any, any>,
+  options: GraphExportOptions = {}
+): string {
+  const lines = [`flowchart ${options.direction || 'TB'}`];
+  const classes: Record<string, string[]> = {
+    async: [],
+    batch: [],
+    parallel: [],
+  };
+
+  const render = (graph: Graph, indent: string) => {
+    for (const node of graph.nodes) {
+      const label = escape(node.label);
+      if (node.graph) {
+        const kind = kindLabel(node.kind);
+        const title = kind ? `${label} (${kind})` : label;
+        lines.push(`${indent}subgraph ${node.key} ["${title}"]`);
+        render(node.graph, `${indent}  `);
+        lines.push(`${indent}end`);
+        continue;
+      }
+      const shape = node.kind.batch
+        ? `[["${label}"]]`
+        : node.kind.async
+          ? `(["${label}"])`
+          : `["${label}"]`;
+      lines.push(`${indent}${node.key}${shape}`);
+      for (const name of Object.keys(classes)) {
+        if (node.kind[name as keyof NodeKind]) {
+          classes[name].push(node.key);
+        }
+      }
+    }
+    for (const { from, to, action } of graph.edges) {
+      const arrow = action === 'default' ? '-->' : `-->|"${escape(action)}"|`;
+      lines.push(`${indent}${from.key} ${arrow} ${to.key}`);
+    }
+  };
+
+  render(describe(flow), '  ');
+
+  lines.push(
+    '  classDef async stroke-dasharray: 5 5',
+    '  classDef batch fill:#eef3ff',
+    '  classDef parallel stroke-width:3px'
+  );
+  for (const [name, keys] of Object.entries(classes)) {
+    if (keys.length > 0) {
+      lines.push(`  class ${keys.join(',')} ${name}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Renders a flow as a Graphviz DOT digraph. Nested flows become clusters,
+ * batch nodes are drawn as 3D boxes, async nodes dashed and parallel nodes
+ * with a double border.
+ */
+export function toDot(
+  flow: Flow<any, any, any>,
+  options: GraphExportOptions = {}
+): string {
+  const lines = [
+    `digraph "${escape(flow.id)}" {`,
+    '  compound=true;',
+    `  rankdir=${options.direction || 'TB'};`,
+    '  node [shape=box];',
+  ];
+
+  // Edges to and from a cluster attach to its first node
+  const anchor = (node: GraphNode): GraphNode =>
+    node.graph && node.graph.nodes.length > 0
+      ? anchor(node.graph.nodes[0])
+      : node;
+
+  const render = (graph: Graph, indent: string) => {
+    for (const node of graph.nodes) {
+      const label = escape(node.label);
+      if (node.graph) {
+        const kind = kindLabel(node.kind);
+        lines.push(`${indent}subgraph "cluster_${node.key}" {`);
+        lines.push(
+          `${indent}  label="${kind ? `${label} (${kind})` : label}";`
+        );
+        if (node.graph.nodes.length === 0) {
+          lines.push(`${indent}  "${node.key}" [label="(empty)"];`);
+        }
+        render(node.graph, `${indent}  `);
+        lines.push(`${indent}}`);
+        continue;
+      }
+      const attrs = [`label="${label}"`];
+      if (node.kind.batch) attrs.push('shape=box3d');
+      if (node.kind.async) attrs.push('style=dashed');
+      if (node.kind.parallel) attrs.push('peripheries=2');
+      lines.push(`${indent}"${node.key}" [${attrs.join(', ')}];`);
+    }
+    for (const { from, to, action } of graph.edges) {
+      const attrs: string[] = [];
+      if (action !== 'default') attrs.push(`label="${escape(action)}"`);
+      if (from.graph) attrs.push(`ltail="cluster_${from.key}"`);
+      if (to.graph) attrs.push(`lhead="cluster_${to.key}"`);
+      const suffix = attrs.length > 0 ? ` [${attrs.join(', ')}]` : '';
+      lines.push(
+        `${indent}"${anchor(from).key}" -> "${anchor(to).key}"${suffix};`
+      );
+    }
+  };
+
+  render(describe(flow), '  ');
+  lines.push('}');
+  return lines.join('\n');
+}
@@ -0,0 +1,133 @@
+import {
+  BatchNode,
+  AsyncNode,
+  AsyncParallelBatchNode,
+  AsyncBatchFlow,
+  BatchItemResult,
+  SharedStore,
+} from '../src/index';
+
+describe('Batch failure modes', () => {
+  class SquareNode extends BatchNode<SharedStore, number, any> {
+    prep(shared: SharedStore): number[] {
+      return shared.items;
+    }
+
+    exec(item: number): number {
+      if (item < 0) {
+        throw new Error(`negative: ${item}`);
+      }
+      return item * item;
+    }
+
+    post(shared: SharedStore, prepRes: number[], execRes: any[]): string {
+      shared.results = execRes;
+      shared.summary = this.batchSummary;
+      return 'default';
+    }
+  }
+
+  it('should throw on the first failed item by default', () => {
+    expect(() => new SquareNode().run({ items: [1, -2, 3] })).toThrow(
+      'negative: -2'
+    );
+  });
+
+  it('should collect a result per item', () => {
+    const node = new SquareNode();
+    node.setFailureMode('collect');
+    const shared: SharedStore = { items: [1, -2, 3] };
+
+    node.run(shared);
+
+    expect(shared.results).toEqual([
+      { status: 'fulfilled', value: 1 },
+      { status: 'rejected', error: new Error('negative: -2') },
+      { status: 'fulfilled', value: 9 },
+    ]);
+    expect(shared.summary).toEqual({
+      total: 3,
+      succeeded: 2,
+      failed: [{ index: 1, error: new Error('negative: -2') }],
+    });
+  });
+
+  it('should skip failed items in parallel batches', async () => {
+    class AsyncSquareNode extends AsyncParallelBatchNode<
+      SharedStore,
+      number,
+      number
+    > {
+      async prepAsync(shared: SharedStore): Promise<number[]> {
+        return shared.items;
+      }
+
+      async execAsync(item: number): Promise<number> {
+        if (item < 0) {
+          throw new Error('negative');
+        }
+        return item * item;
+      }
+
+      async postAsync(
+        shared: SharedStore,
+        prepRes: number[],
+        execRes: number[]
+      ): Promise<string> {
+        shared.results = execRes;
+        shared.failed = this.batchSummary!.failed.map(f => f.index);
+        return 'default';
+      }
+    }
+
+    const node = new AsyncSquareNode();
+    node.setFailureMode('skip');
+    node.setConcurrency({ concurrency: 2 });
+    const shared: SharedStore = { items: [-1, 2, -3, 4] };
+
+    await node.runAsync(shared);
+
+    expect(shared.results).toEqual([4, 16]);
+    expect(shared.failed).toEqual([0, 2]);
+  });
+
+  it('should keep running the sub-flows of a batch flow', async () => {
+    class UploadNode extends AsyncNode {
+      async execAsync(): Promise<void> {
+        if (this.params.file === 'broken.txt') {
+          throw new Error('upload failed');
+        }
+      }
+
+      async postAsync(shared: SharedStore): Promise<string> {
+        shared.uploaded.push(this.params.file);
+        return 'uploaded';
+      }
+    }
+
+    class UploadFlow extends AsyncBatchFlow {
+      async prepAsync(): Promise<Record<string, any>[]> {
+        return ['a.txt', 'broken.txt', 'c.txt'].map(file => ({ file }));
+      }
+
+      async postAsync(
+        shared: SharedStore,
+        prepRes: Record<string, any>[],
+        execRes: BatchItemResult<string>[]
+      ): Promise<string> {
+        shared.statuses = execRes.map(result => result.status);
+        return 'default';
+      }
+    }
+
+    const flow = new UploadFlow(new UploadNode());
+    flow.setFailureMode('collect');
+    const shared: SharedStore = { uploaded: [] };
+
+    await flow.runAsync(shared);
+
+    expect(shared.uploaded).toEqual(['a.txt', 'c.txt']);
+    expect(shared.statuses).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    expect(flow.batchSummary!.failed[0].error.message).toBe('upload failed');
+  });
+});
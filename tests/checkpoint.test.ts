@@ -0,0 +1,168 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  Node,
+  Flow,
+  BatchFlow,
+  AsyncNode,
+  AsyncFlow,
+  AsyncBatchFlow,
+  SharedStore,
+  MemoryCheckpointStore,
+  FileCheckpointStore,
+} from '../src/index';
+
+describe('Checkpoints', () => {
+  let failOn: string | null = null;
+
+  class StepNode extends Node {
+    constructor(private label: string) {
+      super();
+    }
+
+    post(shared: SharedStore): string {
+      if (failOn === this.label) {
+        throw new Error(`crash in ${this.label}`);
+      }
+      shared.steps = [...(shared.steps || []), this.label];
+      return 'default';
+    }
+  }
+
+  class AsyncStepNode extends AsyncNode {
+    constructor(private label: string) {
+      super();
+    }
+
+    async postAsync(shared: SharedStore): Promise<string> {
+      if (failOn === this.label) {
+        throw new Error(`crash in ${this.label}`);
+      }
+      shared.steps = [...(shared.steps || []), this.label];
+      return 'default';
+    }
+  }
+
+  beforeEach(() => {
+    failOn = null;
+  });
+
+  it('should save a checkpoint after every node', () => {
+    const a = new StepNode('a');
+    const b = new StepNode('b');
+    a.next(b);
+
+    const store = new MemoryCheckpointStore();
+    const flow = new Flow(a);
+    flow.setCheckpointStore(store);
+    flow.setParams({ lang: 'en' });
+    flow.run({}, { runId: 'run-1' });
+
+    expect(store.load('run-1')).toMatchObject({
+      runId: 'run-1',
+      nodeId: 'StepNode_2',
+      action: 'default',
+      params: { lang: 'en' },
+      shared: { steps: ['a', 'b'] },
+    });
+  });
+
+  it('should not checkpoint runs without a runId', () => {
+    const store = new MemoryCheckpointStore();
+    const save = jest.spyOn(store, 'save');
+    const flow = new Flow(new StepNode('a'));
+    flow.setCheckpointStore(store);
+
+    flow.run({});
+
+    expect(save).not.toHaveBeenCalled();
+  });
+
+  it('should resume a crashed run after the last completed node', () => {
+    const a = new StepNode('a');
+    const b = new StepNode('b');
+    const c = new StepNode('c');
+    a.next(b).next(c);
+
+    const store = new MemoryCheckpointStore();
+    const flow = new Flow(a);
+    flow.setCheckpointStore(store);
+
+    failOn = 'c';
+    expect(() => flow.run({}, { runId: 'run-2' })).toThrow('crash in c');
+
+    failOn = null;
+    const shared: SharedStore = {};
+    flow.resume('run-2', shared);
+
+    expect(shared.steps).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should throw when resuming an unknown run', () => {
+    const flow = new Flow(new StepNode('a'));
+    flow.setCheckpointStore(new MemoryCheckpointStore());
+
+    expect(() => flow.resume('missing')).toThrow(
+      "No checkpoint found for run 'missing'"
+    );
+  });
+
+  it('should reject an asynchronous store before running a Flow', () => {
+    const store = new MemoryCheckpointStore();
+    const flow = new Flow(new StepNode('a'));
+    flow.setCheckpointStore({
+      save: async checkpoint => store.save(checkpoint),
+      load: async runId => store.load(runId),
+      delete: async runId => store.delete(runId),
+    });
+    const shared: SharedStore = {};
+
+    expect(() => flow.run(shared, { runId: 'run-4' })).toThrow(
+      'Checkpoint store is asynchronous. Use AsyncFlow.'
+    );
+    expect(shared.steps).toBeUndefined();
+  });
+
+  it('should refuse to checkpoint batch flows', async () => {
+    const store = new MemoryCheckpointStore();
+    const batch = new BatchFlow(new StepNode('a'));
+    batch.setCheckpointStore(store);
+    const asyncBatch = new AsyncBatchFlow(new AsyncStepNode('a'));
+    asyncBatch.setCheckpointStore(store);
+
+    expect(() => batch.run({}, { runId: 'batch' })).toThrow(
+      "Batch flows cannot be checkpointed. Run 'BatchFlow' without a runId."
+    );
+    await expect(asyncBatch.runAsync({}, { runId: 'batch' })).rejects.toThrow(
+      'Batch flows cannot be checkpointed'
+    );
+    expect(store.load('batch')).toBeUndefined();
+  });
+
+  it('should resume an AsyncFlow from a file store', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'zero-graph-'));
+    try {
+      const a = new AsyncStepNode('a');
+      const b = new AsyncStepNode('b');
+      a.next(b);
+
+      const flow = new AsyncFlow(a);
+      flow.setCheckpointStore(new FileCheckpointStore(dir));
+
+      failOn = 'b';
+      await expect(flow.runAsync({}, { runId: 'run/3' })).rejects.toThrow(
+        'crash in b'
+      );
+      expect(fs.readdirSync(dir)).toEqual(['run%2F3.json']);
+
+      failOn = null;
+      const shared: SharedStore = {};
+      await flow.resumeAsync('run/3', shared);
+
+      expect(shared.steps).toEqual(['a', 'b']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
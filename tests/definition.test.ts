@@ -0,0 +1,136 @@
+import * as yaml from 'js-yaml';
+import {
+  Node,
+  Flow,
+  AsyncNode,
+  AsyncFlow,
+  SharedStore,
+  NodeRegistry,
+  FlowDefinition,
+  FlowDefinitionError,
+  buildFlow,
+  loadFlow,
+  serializeFlow,
+} from '../src/index';
+
+describe('Flow definitions', () => {
+  class GreetNode extends Node {
+    post(shared: SharedStore): string {
+      shared.log = [...(shared.log || []), `hello ${this.params.name}`];
+      return shared.log.length < 2 ? 'again' : 'done';
+    }
+  }
+
+  class FetchNode extends AsyncNode {
+    async postAsync(shared: SharedStore): Promise<string> {
+      shared.fetched = this.params.url;
+      return 'default';
+    }
+  }
+
+  const registry = new NodeRegistry()
+    .register('greet', GreetNode)
+    .register('fetch', FetchNode)
+    .register('node', Node);
+
+  const definition: FlowDefinition = {
+    id: 'main',
+    type: 'AsyncFlow',
+    start: 'greet',
+    nodes: [
+      { id: 'greet', type: 'greet', params: { name: 'world' } },
+      {
+        id: 'sub',
+        type: 'AsyncFlow',
+        start: 'fetch',
+        nodes: [
+          {
+            id: 'fetch',
+            type: 'fetch',
+            params: { url: 'https://example.com' },
+            options: {
+              maxRetries: 3,
+              wait: 1,
+              timeoutMs: 500,
+              retry: { backoff: 'exponential', maxDelayMs: 5000 },
+            },
+          },
+        ],
+        edges: [],
+      },
+    ],
+    edges: [
+      { from: 'greet', to: 'greet', action: 'again' },
+      { from: 'greet', to: 'sub', action: 'done' },
+    ],
+  };
+
+  it('should build and run a flow from a definition', async () => {
+    const flow = buildFlow(definition, registry);
+    const shared: SharedStore = {};
+
+    await (flow as AsyncFlow).runAsync(shared);
+
+    expect(flow).toBeInstanceOf(AsyncFlow);
+    expect(flow.getNode('sub')).toBeInstanceOf(AsyncFlow);
+    expect(shared).toEqual({
+      log: ['hello world', 'hello world'],
+      fetched: 'https://example.com',
+    });
+  });
+
+  it('should round-trip through serialization', () => {
+    const flow = loadFlow(JSON.stringify(definition), registry);
+
+    expect(serializeFlow(flow, registry)).toEqual(definition);
+  });
+
+  it('should load YAML documents with a YAML parser', async () => {
+    const source = [
+      'type: AsyncFlow',
+      'start: greet',
+      'nodes:',
+      '  - id: greet',
+      '    type: greet',
+      '    params: { name: yaml }',
+      '  - id: fetch',
+      '    type: fetch',
+      '    params:',
+      '      url: https://example.com/yaml',
+      'edges:',
+      '  - { from: greet, to: greet, action: again }',
+      '  - { from: greet, to: fetch, action: done }',
+    ].join('\n');
+
+    const flow = loadFlow(source, registry, yaml.load);
+    const shared: SharedStore = {};
+    await (flow as AsyncFlow).runAsync(shared);
+
+    expect(shared).toEqual({
+      log: ['hello yaml', 'hello yaml'],
+      fetched: 'https://example.com/yaml',
+    });
+    expect(yaml.load(yaml.dump(serializeFlow(flow, registry)))).toEqual(
+      serializeFlow(flow, registry)
+    );
+  });
+
+  it('should reject unknown types and node references', () => {
+    expect(() =>
+      buildFlow({ start: 'a', nodes: [{ id: 'a', type: 'missing' }] }, registry)
+    ).toThrow("Unknown node type 'missing'");
+    expect(() =>
+      buildFlow(
+        {
+          start: 'a',
+          nodes: [{ id: 'a', type: 'node' }],
+          edges: [{ from: 'a', to: 'b' }],
+        },
+        registry
+      )
+    ).toThrow(FlowDefinitionError);
+    expect(() => serializeFlow(new Flow(new AsyncNode()), registry)).toThrow(
+      "'AsyncNode' has unregistered type AsyncNode"
+    );
+  });
+});
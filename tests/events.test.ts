@@ -0,0 +1,139 @@
+import {
+  Node,
+  Flow,
+  AsyncNode,
+  AsyncFlow,
+  SharedStore,
+  FlowEventName,
+  FlowEvents,
+} from '../src/index';
+
+function record(flow: Flow): [FlowEventName, any][] {
+  const events: [FlowEventName, any][] = [];
+  const names: FlowEventName[] = [
+    'flowStart',
+    'flowEnd',
+    'nodeStart',
+    'prepDone',
+    'execRetry',
+    'execFallback',
+    'nodeEnd',
+    'transition',
+  ];
+  for (const name of names) {
+    flow.on(name, event => events.push([name, event]));
+  }
+  return events;
+}
+
+describe('Lifecycle events', () => {
+  class FlakyNode extends Node {
+    private calls = 0;
+
+    constructor() {
+      super(3);
+    }
+
+    exec(): string {
+      this.calls++;
+      if (this.calls < 2) {
+        throw new Error('flaky');
+      }
+      return 'ok';
+    }
+
+    post(): string {
+      return 'next';
+    }
+  }
+
+  class FailingNode extends Node {
+    exec(): string {
+      throw new Error('boom');
+    }
+
+    execFallback(): string {
+      return 'fallback';
+    }
+  }
+
+  it('should report node lifecycle and transitions', () => {
+    const flaky = new FlakyNode();
+    const failing = new FailingNode();
+    flaky.next(failing, 'next');
+
+    const flow = new Flow(flaky);
+    const events = record(flow);
+    flow.run({});
+
+    expect(events.map(([name, e]) => [name, e.path])).toEqual([
+      ['flowStart', []],
+      ['nodeStart', ['FlakyNode']],
+      ['prepDone', ['FlakyNode']],
+      ['execRetry', ['FlakyNode']],
+      ['nodeEnd', ['FlakyNode']],
+      ['transition', []],
+      ['nodeStart', ['FailingNode']],
+      ['prepDone', ['FailingNode']],
+      ['execFallback', ['FailingNode']],
+      ['nodeEnd', ['FailingNode']],
+      ['flowEnd', []],
+    ]);
+
+    const byName = Object.fromEntries(events);
+    expect(byName.execRetry).toMatchObject({ nodeId: 'FlakyNode', attempt: 1 });
+    expect(byName.execRetry.error.message).toBe('flaky');
+    expect(byName.execFallback).toMatchObject({ attempts: 1 });
+    expect(byName.transition).toMatchObject({
+      from: 'FlakyNode',
+      to: 'FailingNode',
+      action: 'next',
+    });
+    expect(byName.nodeEnd.action).toBe('default');
+    expect(byName.flowEnd.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should propagate events from nested async flows with a path', async () => {
+    class InnerNode extends AsyncNode {
+      async postAsync(shared: SharedStore): Promise<string> {
+        shared.inner = true;
+        return 'default';
+      }
+    }
+
+    class ReviewFlow extends AsyncFlow {}
+
+    const inner = new ReviewFlow(new InnerNode());
+    const outer = new AsyncFlow(inner);
+    const innerEvents: FlowEvents['nodeEnd'][] = [];
+    inner.on('nodeEnd', e => innerEvents.push(e));
+    const events = record(outer);
+
+    const shared: SharedStore = {};
+    await outer.runAsync(shared);
+
+    expect(shared.inner).toBe(true);
+    expect(events.map(([name, e]) => [name, e.path])).toEqual([
+      ['flowStart', []],
+      ['nodeStart', ['ReviewFlow']],
+      ['flowStart', ['ReviewFlow']],
+      ['nodeStart', ['ReviewFlow', 'InnerNode']],
+      ['prepDone', ['ReviewFlow', 'InnerNode']],
+      ['nodeEnd', ['ReviewFlow', 'InnerNode']],
+      ['flowEnd', ['ReviewFlow']],
+      ['nodeEnd', ['ReviewFlow']],
+      ['flowEnd', []],
+    ]);
+    expect(innerEvents.map(e => e.nodeId)).toEqual(['InnerNode']);
+  });
+
+  it('should stop notifying removed listeners', () => {
+    const flow = new Flow(new FailingNode());
+    const listener = jest.fn();
+    flow.on('nodeStart', listener).off('nodeStart', listener);
+
+    flow.run({});
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
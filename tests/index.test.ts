@@ -2,9 +2,20 @@ import {
   Node,
   Flow,
   BatchNode,
+  BatchFlow,
   AsyncNode,
   AsyncFlow,
+  AsyncBatchFlow,
+  AsyncParallelBatchNode,
+  AsyncParallelBatchFlow,
+  Parallel,
+  Join,
   SharedStore,
+  FlowAbortedError,
+  FlowInterruptedError,
+  MaxStepsExceededError,
+  NodeExecutionError,
+  TimeoutError,
 } from '../src/index';
 
 describe('ZeroGraph TypeScript', () => {
@@ -156,6 +167,26 @@ describe('ZeroGraph TypeScript', () => {
       flow.run(shared2);
       expect(shared2.result).toBe('failure path');
     });
+
+    it("should layer the flow's params over the node's own", () => {
+      class ParamsNode extends Node {
+        post(shared: SharedStore): string {
+          shared.params = { ...this.params };
+          return 'default';
+        }
+      }
+
+      const node = new ParamsNode();
+      node.setParams({ lang: 'en', words: 50 });
+      const flow = new Flow(node);
+      flow.setParams({ lang: 'de' });
+      const shared: SharedStore = {};
+
+      flow.run(shared);
+
+      expect(shared.params).toEqual({ lang: 'de', words: 50 });
+      expect((node as any).params).toEqual({ lang: 'en', words: 50 });
+    });
   });
 
   describe('BatchNode', () => {
@@ -275,4 +306,800 @@ describe('ZeroGraph TypeScript', () => {
       });
     });
   });
+
+  describe('Cancellation', () => {
+    class SlowNode extends AsyncNode {
+      async execAsync(input: any, signal: AbortSignal): Promise<string> {
+        await new Promise(resolve => setTimeout(resolve, 50));
+        return signal.aborted ? 'aborted' : 'done';
+      }
+
+      async postAsync(
+        shared: SharedStore,
+        prepRes: any,
+        execRes: string
+      ): Promise<string> {
+        shared.visited = [...(shared.visited || []), execRes];
+        return 'default';
+      }
+    }
+
+    it('should enforce a per-node deadline', async () => {
+      const node = new SlowNode(1, 0, 10);
+
+      await expect(node.runAsync({})).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    it('should name the node whose own deadline ran out', async () => {
+      const slow = new SlowNode(1, 0, 10);
+      slow.id = 'lookup';
+      const start = new SlowNode();
+      start.next(slow);
+
+      const error = await new AsyncFlow(start).runAsync({}).catch(e => e);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error).toMatchObject({ nodeId: 'lookup', timeoutMs: 10 });
+      expect(error.message).toBe("'lookup' timed out after 10ms");
+    });
+
+    it('should stop an AsyncFlow with FlowAbortedError', async () => {
+      const first = new SlowNode();
+      const second = new SlowNode();
+      first.next(second);
+
+      const flow = new AsyncFlow(first);
+      const shared: SharedStore = {};
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(new Error('stop')), 70);
+
+      const error = await flow
+        .runAsync(shared, { signal: controller.signal })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(FlowAbortedError);
+      expect(error.nodeId).toBe('SlowNode_2');
+      expect(error.reason.message).toBe('stop');
+      expect(shared.visited).toEqual(['done']);
+    });
+
+    it('should apply the flow deadline and skip retries once aborted', async () => {
+      let attempts = 0;
+
+      class HangingNode extends AsyncNode {
+        async execAsync(): Promise<string> {
+          attempts++;
+          return new Promise(() => {});
+        }
+      }
+
+      const flow = new AsyncFlow(new HangingNode(3));
+      const error = await flow.runAsync({}, { timeoutMs: 20 }).catch(e => e);
+
+      expect(error).toBeInstanceOf(FlowAbortedError);
+      expect(error.reason).toBeInstanceOf(TimeoutError);
+      expect(attempts).toBe(1);
+    });
+  });
+
+  describe('Typed nodes', () => {
+    interface CounterStore {
+      count: number;
+      log: string[];
+    }
+
+    class IncrementNode extends Node<
+      CounterStore,
+      number,
+      number,
+      'again' | 'done'
+    > {
+      prep(shared: CounterStore): number {
+        return shared.count;
+      }
+
+      exec(count: number): number {
+        return count + 1;
+      }
+
+      post(shared: CounterStore, prepRes: number, execRes: number) {
+        shared.count = execRes;
+        return execRes < 3 ? 'again' : 'done';
+      }
+    }
+
+    class LogNode extends Node<CounterStore> {
+      post(shared: CounterStore): string {
+        shared.log.push(`count=${shared.count}`);
+        return 'default';
+      }
+    }
+
+    class LengthNode extends BatchNode<CounterStore, string, number> {
+      prep(shared: CounterStore): string[] {
+        return shared.log;
+      }
+
+      exec(item: string): number {
+        return item.length;
+      }
+    }
+
+    it('should only accept actions the source node returns', () => {
+      const increment = new IncrementNode();
+      const log = new LogNode();
+
+      increment.next(increment, 'again');
+      increment.next(log, 'done').next(new LengthNode());
+      // @ts-expect-error 'retry' is not an action of IncrementNode
+      expect(() => increment.next(log, 'retry')).not.toThrow();
+      // @ts-expect-error IncrementNode never returns 'default'
+      expect(() => increment.next(log)).not.toThrow();
+    });
+
+    it('should check the shared store type across the graph', () => {
+      class OtherNode extends Node<{ other: boolean }> {}
+
+      const shared: CounterStore = { count: 0, log: [] };
+      const increment = new IncrementNode();
+      increment.next(increment, 'again');
+      increment.next(new LogNode(), 'done');
+
+      // @ts-expect-error OtherNode expects a different shared store
+      new LogNode().next(new OtherNode());
+
+      const flow = new Flow<CounterStore>(increment);
+      flow.run(shared);
+
+      expect(shared).toEqual({ count: 3, log: ['count=3'] });
+    });
+  });
+
+  describe('Node identity', () => {
+    class StepNode extends Node {}
+    class OtherNode extends Node {}
+
+    it('should default ids to the class name', () => {
+      const node = new StepNode();
+
+      expect(node.name).toBe('StepNode');
+      expect(node.id).toBe('StepNode');
+    });
+
+    it('should make ids unique within a flow', () => {
+      const a = new StepNode();
+      const b = new StepNode();
+      const c = new OtherNode();
+      const named = new StepNode();
+      named.id = 'StepNode_2';
+      a.next(b, 'left');
+      a.next(c, 'right');
+      c.next(named);
+      named.next(a, 'loop');
+
+      const flow = new Flow(a);
+
+      expect(flow.nodes().map(node => node.id)).toEqual([
+        'StepNode',
+        'StepNode_3',
+        'OtherNode',
+        'StepNode_2',
+      ]);
+      expect(flow.getNode('OtherNode')).toBe(c);
+      expect(flow.getNode('missing')).toBeUndefined();
+    });
+
+    it('should derive ids anew for every flow', () => {
+      const a = new StepNode();
+      const b = new StepNode();
+      new Flow(a).nodes();
+      new Flow(b).nodes();
+      a.next(b);
+
+      const flow = new Flow(a);
+
+      expect(flow.nodes().map(node => node.id)).toEqual([
+        'StepNode',
+        'StepNode_2',
+      ]);
+      expect(flow.run({})).toBe('default');
+
+      b.id = 'last';
+      expect(flow.nodes().map(node => node.id)).toEqual(['StepNode', 'last']);
+    });
+
+    it('should reject duplicate explicit ids', () => {
+      const a = new StepNode();
+      const b = new StepNode();
+      a.id = 'step';
+      b.id = 'step';
+      a.next(b);
+
+      expect(() => new Flow(a).nodes()).toThrow("Duplicate node id 'step'");
+    });
+  });
+
+  describe('Bounded concurrency', () => {
+    class TrackingNode extends AsyncParallelBatchNode<SharedStore, number> {
+      active = 0;
+      peak = 0;
+      starts: number[] = [];
+
+      async prepAsync(shared: SharedStore): Promise<number[]> {
+        return shared.items;
+      }
+
+      async execAsync(item: number): Promise<number> {
+        this.starts.push(Date.now());
+        this.peak = Math.max(this.peak, ++this.active);
+        // Later items finish first, so order must come from the pool
+        await new Promise(resolve => setTimeout(resolve, 30 - item * 3));
+        this.active--;
+        return item * 2;
+      }
+
+      async postAsync(
+        shared: SharedStore,
+        prepRes: number[],
+        execRes: number[]
+      ): Promise<string> {
+        shared.results = execRes;
+        return 'default';
+      }
+    }
+
+    it('should cap concurrent items and keep their order', async () => {
+      const node = new TrackingNode();
+      node.setConcurrency({ concurrency: 2 });
+      const shared: SharedStore = { items: [0, 1, 2, 3, 4, 5] };
+
+      await node.runAsync(shared);
+
+      expect(node.peak).toBe(2);
+      expect(shared.results).toEqual([0, 2, 4, 6, 8, 10]);
+    });
+
+    it('should space item starts by the requests-per-second limit', async () => {
+      const node = new TrackingNode();
+      node.setConcurrency({ requestsPerSecond: 50 });
+
+      await node.runAsync({ items: [0, 1, 2] });
+
+      expect(node.starts[2] - node.starts[0]).toBeGreaterThanOrEqual(35);
+    });
+
+    it('should cap concurrent sub-flows of a parallel batch flow', async () => {
+      let active = 0;
+      let peak = 0;
+      class WorkNode extends AsyncNode {
+        async execAsync(): Promise<void> {
+          peak = Math.max(peak, ++active);
+          await new Promise(resolve => setTimeout(resolve, 5));
+          active--;
+        }
+
+        async postAsync(shared: SharedStore): Promise<string> {
+          shared.done.push(this.params.item);
+          return 'default';
+        }
+      }
+
+      class ItemsFlow extends AsyncParallelBatchFlow {
+        async prepAsync(): Promise<Record<string, any>[]> {
+          return [1, 2, 3, 4, 5].map(item => ({ item }));
+        }
+      }
+
+      const flow = new ItemsFlow(new WorkNode());
+      flow.setConcurrency({ concurrency: 3 });
+      const shared: SharedStore = { done: [] };
+
+      await flow.runAsync(shared);
+
+      expect(peak).toBe(3);
+      expect(shared.done.sort()).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should refuse limits that would run no items', () => {
+      const node = new TrackingNode();
+
+      for (const concurrency of [0, -1, 1.5, NaN]) {
+        expect(() => node.setConcurrency({ concurrency })).toThrow(
+          'concurrency must be a positive integer'
+        );
+      }
+      expect(() => node.setConcurrency({ requestsPerSecond: 0 })).toThrow(
+        'requestsPerSecond must be positive'
+      );
+      expect(() =>
+        new AsyncParallelBatchFlow().setConcurrency({ concurrency: 0 })
+      ).toThrow('concurrency must be a positive integer, got 0');
+    });
+  });
+
+  describe('Branch scopes', () => {
+    class AnswerNode extends AsyncNode {
+      async execAsync(): Promise<string> {
+        // Later questions finish first, racing on shared.answer
+        await new Promise(resolve => setTimeout(resolve, 20 - this.params.q));
+        return `answer ${this.params.q}`;
+      }
+
+      async postAsync(
+        shared: SharedStore,
+        prepRes: unknown,
+        execRes: string
+      ): Promise<string> {
+        shared.answer = execRes;
+        shared.seenTopic = shared.topic;
+        return 'default';
+      }
+    }
+
+    class QuestionsFlow extends AsyncParallelBatchFlow {
+      async prepAsync(): Promise<Record<string, any>[]> {
+        return [1, 2, 3].map(q => ({ q }));
+      }
+    }
+
+    it('should isolate branches and merge them in item order', async () => {
+      const flow = new QuestionsFlow(new AnswerNode());
+      const merge = jest.fn(
+        (
+          parent: SharedStore,
+          branches: SharedStore[],
+          params: Record<string, any>[]
+        ) => {
+          parent.answers = branches.map(branch => branch.answer);
+          parent.topics = branches.map(branch => branch.seenTopic);
+        }
+      );
+      flow.setBranchScope(merge);
+      const shared: SharedStore = { topic: 'math' };
+
+      await flow.runAsync(shared);
+
+      expect(shared.answers).toEqual(['answer 1', 'answer 2', 'answer 3']);
+      expect(shared.topics).toEqual(['math', 'math', 'math']);
+      expect(shared.answer).toBeUndefined();
+      expect(merge.mock.calls[0][2]).toEqual([{ q: 1 }, { q: 2 }, { q: 3 }]);
+    });
+
+    it('should share the parent store unless scoped', async () => {
+      const shared: SharedStore = {};
+
+      await new QuestionsFlow(new AnswerNode()).runAsync(shared);
+
+      expect(shared.answer).toBe('answer 1');
+    });
+  });
+
+  describe('Parallel branches', () => {
+    class MediaNode extends AsyncNode {
+      constructor(
+        private kind: string,
+        private delayMs: number,
+        private fail = false
+      ) {
+        super();
+      }
+
+      async execAsync(prepRes: unknown, signal: AbortSignal): Promise<string> {
+        await new Promise(resolve => setTimeout(resolve, this.delayMs));
+        if (this.fail) {
+          throw new Error(`${this.kind} failed`);
+        }
+        return `${this.kind}.bin`;
+      }
+
+      async postAsync(
+        shared: SharedStore,
+        prepRes: unknown,
+        execRes: string
+      ): Promise<string> {
+        shared.output = execRes;
+        shared.finished = [...(shared.finished || []), this.kind];
+        return 'default';
+      }
+    }
+
+    class AssembleNode extends AsyncNode {
+      async postAsync(shared: SharedStore): Promise<string> {
+        shared.assembled = true;
+        return 'default';
+      }
+    }
+
+    function build(join: Join, ...branches: MediaNode[]): AsyncFlow {
+      const fork = new Parallel();
+      branches.forEach((branch, i) => {
+        fork.next(branch, ['image', 'tts', 'music'][i]);
+        branch.next(join);
+      });
+      join.next(new AssembleNode());
+      return new AsyncFlow(fork);
+    }
+
+    it('should run branches concurrently and merge them at the join', async () => {
+      const join = new Join({
+        merge: (parent, branches) => {
+          parent.media = Object.fromEntries(
+            Object.entries(branches).map(([name, b]) => [name, b.output])
+          );
+        },
+      });
+      const flow = build(
+        join,
+        new MediaNode('image', 30),
+        new MediaNode('tts', 30)
+      );
+      const shared: SharedStore = {};
+
+      const start = Date.now();
+      await flow.runAsync(shared);
+
+      expect(Date.now() - start).toBeLessThan(55);
+      expect(shared.media).toEqual({ image: 'image.bin', tts: 'tts.bin' });
+      expect(shared.output).toBeUndefined();
+      expect(shared.assembled).toBe(true);
+    });
+
+    it('should continue after the first branch when waiting for any', async () => {
+      const flow = build(
+        new Join({ waitFor: 'any' }),
+        new MediaNode('image', 60),
+        new MediaNode('tts', 5)
+      );
+      const shared: SharedStore = {};
+
+      await flow.runAsync(shared);
+      await new Promise(resolve => setTimeout(resolve, 70));
+
+      expect(shared.finished).toEqual(['tts']);
+      expect(shared.assembled).toBe(true);
+    });
+
+    it('should tolerate failed branches the join does not need', async () => {
+      const flow = build(
+        new Join({ waitFor: 2 }),
+        new MediaNode('image', 5),
+        new MediaNode('tts', 5, true),
+        new MediaNode('music', 10)
+      );
+      const shared: SharedStore = {};
+
+      await flow.runAsync(shared);
+
+      expect(shared.finished).toEqual(['image', 'music']);
+      expect(shared.assembled).toBe(true);
+
+      const strict = build(
+        new Join(),
+        new MediaNode('image', 5),
+        new MediaNode('tts', 5, true)
+      );
+      await expect(strict.runAsync({})).rejects.toThrow('tts failed');
+    });
+  });
+
+  describe('Interrupts', () => {
+    class GreetNode extends AsyncNode {
+      async postAsync(shared: SharedStore): Promise<string> {
+        shared.greetings = (shared.greetings || 0) + 1;
+        return 'default';
+      }
+    }
+
+    class AskNode extends AsyncNode {
+      async execAsync(): Promise<string> {
+        return this.interrupt<string>({ question: 'What is your name?' });
+      }
+
+      async postAsync(
+        shared: SharedStore,
+        prepRes: unknown,
+        execRes: string
+      ): Promise<string> {
+        shared.name = execRes;
+        return 'default';
+      }
+    }
+
+    class ReplyNode extends AsyncNode {
+      async postAsync(shared: SharedStore): Promise<string> {
+        shared.reply = `Hello, ${shared.name}!`;
+        return 'default';
+      }
+    }
+
+    async function interrupted(run: Promise<unknown>) {
+      try {
+        await run;
+      } catch (e) {
+        expect(e).toBeInstanceOf(FlowInterruptedError);
+        return e as FlowInterruptedError;
+      }
+      throw new Error('Flow was not interrupted');
+    }
+
+    it('should pause at the node and resume there with the input', async () => {
+      const greet = new GreetNode();
+      greet.next(new AskNode()).next(new ReplyNode());
+      const flow = new AsyncFlow(greet);
+
+      const error = await interrupted(flow.runAsync({}));
+
+      expect(error.request).toEqual({
+        nodeId: 'AskNode',
+        path: ['AskNode'],
+        payload: { question: 'What is your name?' },
+      });
+      expect(typeof error.token).toBe('string');
+
+      const shared: SharedStore = {};
+      await flow.resumeWith(error.token!, 'Ada', shared);
+
+      expect(shared).toEqual({
+        greetings: 1,
+        name: 'Ada',
+        reply: 'Hello, Ada!',
+      });
+    });
+
+    it('should resume inside nested flows without retrying', async () => {
+      const exec = jest.fn();
+      class RetryingAskNode extends AskNode {
+        constructor() {
+          super(3);
+        }
+
+        async execAsync(): Promise<string> {
+          exec();
+          return super.execAsync();
+        }
+      }
+
+      const inner = new AsyncFlow(new RetryingAskNode());
+      inner.id = 'signup';
+      const greet = new GreetNode();
+      greet.next(inner).next(new ReplyNode());
+      const flow = new AsyncFlow(greet);
+
+      const error = await interrupted(flow.runAsync({}));
+      expect(exec).toHaveBeenCalledTimes(1);
+      expect(error.request.path).toEqual(['signup', 'RetryingAskNode']);
+
+      const shared: SharedStore = {};
+      await flow.resumeWith(error.token!, 'Grace', shared);
+
+      expect(shared.reply).toBe('Hello, Grace!');
+      expect(shared.greetings).toBe(1);
+      await expect(flow.resumeWith('not a token', '')).rejects.toThrow(
+        'Invalid resume token'
+      );
+    });
+
+    it('should resume inside nested sync flows at the interrupted node', async () => {
+      class CountNode extends Node {
+        post(shared: SharedStore): string {
+          shared.counted = (shared.counted || 0) + 1;
+          return 'default';
+        }
+      }
+      class SyncAskNode extends Node {
+        exec(): string {
+          return this.interrupt<string>({ question: 'What is your name?' });
+        }
+
+        post(shared: SharedStore, prepRes: unknown, execRes: string): string {
+          shared.name = execRes;
+          return 'default';
+        }
+      }
+
+      const count = new CountNode();
+      count.next(new SyncAskNode());
+      const inner = new Flow(count);
+      inner.id = 'Inner';
+      inner.next(new ReplyNode());
+      const flow = new AsyncFlow(inner);
+
+      const error = await interrupted(flow.runAsync({}));
+      expect(error.request.path).toEqual(['Inner', 'SyncAskNode']);
+
+      const shared: SharedStore = {};
+      await flow.resumeWith(error.token!, 'Lin', shared);
+
+      expect(shared).toEqual({ counted: 1, name: 'Lin', reply: 'Hello, Lin!' });
+    });
+
+    it('should not let nodes interrupt inside batch flows', async () => {
+      class ItemsBatchFlow extends AsyncBatchFlow {
+        async prepAsync(): Promise<Record<string, any>[]> {
+          return [{ item: 1 }, { item: 2 }];
+        }
+      }
+      class ItemsParallelFlow extends AsyncParallelBatchFlow {
+        async prepAsync(): Promise<Record<string, any>[]> {
+          return [{ item: 1 }, { item: 2 }];
+        }
+      }
+
+      class ItemsSyncFlow extends BatchFlow {
+        prep(): Record<string, any>[] {
+          return [{ item: 1 }, { item: 2 }];
+        }
+      }
+      class SyncAskNode extends Node {
+        exec(): string {
+          return this.interrupt<string>({ question: 'Which item?' });
+        }
+      }
+      const sync = new ItemsSyncFlow(new SyncAskNode());
+      sync.setFailureMode('collect');
+      await expect(new AsyncFlow(sync).runAsync({})).rejects.toThrow(
+        "'SyncAskNode' cannot interrupt inside a batch flow"
+      );
+
+      for (const batch of [
+        new ItemsBatchFlow(new AskNode()),
+        new ItemsParallelFlow(new AskNode()),
+      ]) {
+        batch.setFailureMode('collect');
+        const error = await new AsyncFlow(batch).runAsync({}).catch(e => e);
+
+        expect(error).not.toBeInstanceOf(FlowInterruptedError);
+        expect(error.message).toBe(
+          "'AskNode' cannot interrupt inside a batch flow"
+        );
+      }
+    });
+  });
+
+  describe('Step limits', () => {
+    class SearchNode extends Node {
+      post(shared: SharedStore): string {
+        shared.searches = (shared.searches || 0) + 1;
+        return 'decide';
+      }
+    }
+
+    class DecideNode extends Node {
+      post(): string {
+        return 'search';
+      }
+    }
+
+    class GiveUpNode extends Node {
+      post(shared: SharedStore): string {
+        shared.gaveUp = true;
+        return 'done';
+      }
+    }
+
+    function agentLoop(): { decide: DecideNode; search: SearchNode } {
+      const decide = new DecideNode();
+      const search = new SearchNode();
+      decide.next(search, 'search');
+      search.next(decide, 'decide');
+      return { decide, search };
+    }
+
+    it('should stop a looping flow after maxSteps', () => {
+      const { decide } = agentLoop();
+      const flow = new Flow(decide);
+      flow.setStepLimits({ maxSteps: 5 });
+      const shared: SharedStore = {};
+
+      let error: MaxStepsExceededError | undefined;
+      try {
+        flow.run(shared);
+      } catch (e) {
+        error = e as MaxStepsExceededError;
+      }
+
+      expect(error).toBeInstanceOf(MaxStepsExceededError);
+      expect(error!.limit).toBe('maxSteps');
+      expect(error!.nodeId).toBe('SearchNode');
+      expect(error!.path).toEqual([
+        'DecideNode',
+        'SearchNode',
+        'DecideNode',
+        'SearchNode',
+        'DecideNode',
+      ]);
+      expect(shared.searches).toBe(2);
+    });
+
+    it('should route to the fallback action when a node is visited too often', async () => {
+      const { decide } = agentLoop();
+      decide.next(new GiveUpNode(), 'giveUp');
+      const flow = new AsyncFlow(decide);
+      flow.setStepLimits({ maxVisits: 3, fallback: 'giveUp' });
+      const shared: SharedStore = {};
+
+      const action = await flow.runAsync(shared);
+
+      expect(action).toBe('done');
+      expect(shared).toEqual({ searches: 3, gaveUp: true });
+    });
+  });
+
+  describe('Error routing', () => {
+    class FetchNode extends Node {
+      prep(shared: SharedStore): string {
+        return shared.url;
+      }
+
+      exec(url: string): string {
+        throw new Error(`cannot fetch ${url}`);
+      }
+    }
+
+    class HandlerNode extends AsyncNode {
+      async postAsync(shared: SharedStore): Promise<string> {
+        shared.handled = shared.error.nodeId;
+        return 'handled';
+      }
+    }
+
+    it('should follow the error edge once retries and fallback are exhausted', async () => {
+      const fetch = new FetchNode(2);
+      fetch.next(new HandlerNode(), 'error');
+      const flow = new AsyncFlow(fetch);
+      const shared: SharedStore = { url: 'https://example.com' };
+
+      const action = await flow.runAsync(shared);
+
+      expect(action).toBe('handled');
+      expect(shared.handled).toBe('FetchNode');
+      expect(shared.error).toBeInstanceOf(NodeExecutionError);
+      expect(shared.error).toMatchObject({
+        nodeId: 'FetchNode',
+        attempts: 2,
+        prepRes: 'https://example.com',
+        cause: new Error('cannot fetch https://example.com'),
+      });
+    });
+
+    it('should route errors of nested flows and rethrow without an edge', () => {
+      class LogNode extends Node {
+        post(shared: SharedStore): string {
+          shared.logged = shared.error.message;
+          return 'default';
+        }
+      }
+
+      const inner = new Flow(new FetchNode());
+      inner.id = 'inner';
+      inner.next(new LogNode(), 'error');
+      const shared: SharedStore = { url: 'x' };
+
+      new Flow(inner).run(shared);
+
+      expect(shared.logged).toBe("Node 'inner' failed: cannot fetch x");
+      expect(shared.error.attempts).toBe(0);
+      expect(() => new Flow(new FetchNode()).run({ url: 'y' })).toThrow(
+        'cannot fetch y'
+      );
+    });
+
+    it('should rethrow the original error when there is no error edge', async () => {
+      const failure = new Error('quota exceeded');
+      class QuotaNode extends AsyncNode {
+        async execAsync(): Promise<void> {
+          throw failure;
+        }
+      }
+      const shared: SharedStore = {};
+
+      const error = await new AsyncFlow(new QuotaNode(2))
+        .runAsync(shared)
+        .catch(e => e);
+
+      expect(error).toBe(failure);
+      expect(error).not.toBeInstanceOf(NodeExecutionError);
+      expect(shared.error).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,160 @@
+import {
+  AsyncNode,
+  AsyncFlow,
+  SharedStore,
+  LLMClient,
+  LLMRequestError,
+  MockLLMClient,
+  OpenAIClient,
+} from '../src/index';
+
+describe('LLM clients', () => {
+  function fakeFetch(status: number, body: unknown) {
+    return jest.fn(
+      async (url: string, init: RequestInit) =>
+        ({
+          ok: status < 400,
+          status,
+          json: async () => body,
+          text: async () => JSON.stringify(body),
+        }) as Response
+    );
+  }
+
+  it('should speak the OpenAI chat completions protocol', async () => {
+    const fetch = fakeFetch(200, {
+      model: 'gpt-test',
+      choices: [
+        {
+          message: {
+            content: null,
+            tool_calls: [
+              {
+                id: 'call_1',
+                type: 'function',
+                function: { name: 'search', arguments: '{"q":"tea"}' },
+              },
+            ],
+          },
+          finish_reason: 'tool_calls',
+        },
+      ],
+      usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 },
+    });
+    const client = new OpenAIClient({
+      model: 'gpt-test',
+      apiKey: 'secret',
+      baseURL: 'http://localhost:8080/v1/',
+      fetch,
+    });
+
+    const response = await client.chat({
+      messages: [{ role: 'user', content: 'Find tea' }],
+      tools: [{ name: 'search', parameters: { type: 'object' } }],
+      temperature: 0,
+      maxTokens: 100,
+    });
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('http://localhost:8080/v1/chat/completions');
+    expect((init.headers as Record<string, string>).Authorization).toBe(
+      'Bearer secret'
+    );
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: 'gpt-test',
+      messages: [{ role: 'user', content: 'Find tea' }],
+      tools: [
+        {
+          type: 'function',
+          function: { name: 'search', parameters: { type: 'object' } },
+        },
+      ],
+      temperature: 0,
+      max_tokens: 100,
+    });
+    expect(response).toEqual({
+      message: {
+        role: 'assistant',
+        content: '',
+        toolCalls: [{ id: 'call_1', name: 'search', arguments: '{"q":"tea"}' }],
+      },
+      usage: { promptTokens: 12, completionTokens: 5, totalTokens: 17 },
+      model: 'gpt-test',
+      finishReason: 'tool_calls',
+    });
+  });
+
+  it('should raise LLMRequestError for error statuses', async () => {
+    const client = new OpenAIClient({
+      model: 'gpt-test',
+      fetch: fakeFetch(429, { error: 'rate limited' }),
+    });
+
+    const request = client.chat({ messages: [] });
+
+    await expect(request).rejects.toBeInstanceOf(LLMRequestError);
+    await expect(request).rejects.toMatchObject({
+      status: 429,
+      body: '{"error":"rate limited"}',
+    });
+  });
+
+  it('should let nodes run offline against scripted replies', async () => {
+    class AnswerNode extends AsyncNode {
+      constructor(private llm: LLMClient) {
+        super();
+      }
+
+      async prepAsync(shared: SharedStore): Promise<string> {
+        return shared.question;
+      }
+
+      async execAsync(question: string): Promise<string> {
+        const response = await this.llm.chat({
+          messages: [{ role: 'user', content: question }],
+        });
+        return response.message.content;
+      }
+
+      async postAsync(
+        shared: SharedStore,
+        prepRes: string,
+        execRes: string
+      ): Promise<string> {
+        shared.answer = execRes;
+        return 'default';
+      }
+    }
+
+    const llm = new MockLLMClient(['42']);
+    const shared: SharedStore = { question: 'What is the answer?' };
+
+    await new AsyncFlow(new AnswerNode(llm)).runAsync(shared);
+
+    expect(shared.answer).toBe('42');
+    expect(llm.requests[0].messages[0].content).toBe('What is the answer?');
+    await expect(llm.chat({ messages: [] })).rejects.toThrow(
+      'MockLLMClient has no reply for request 2'
+    );
+  });
+
+  it('should answer every request with a responder', async () => {
+    const llm = new MockLLMClient(request => ({
+      content: `echo: ${request.messages[0].content}`,
+    }));
+
+    const response = await llm.chat({
+      messages: [{ role: 'user', content: 'hello' }],
+    });
+
+    expect(response.message).toEqual({
+      role: 'assistant',
+      content: 'echo: hello',
+    });
+    expect(response.usage).toEqual({
+      promptTokens: 2,
+      completionTokens: 3,
+      totalTokens: 5,
+    });
+  });
+});
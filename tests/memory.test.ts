@@ -0,0 +1,149 @@
+import {
+  AsyncNode,
+  AsyncFlow,
+  AsyncLLMNode,
+  LLMNode,
+  SharedStore,
+  ConversationMemory,
+  MemoryCheckpointStore,
+  MockLLMClient,
+  SummarizeMemoryNode,
+} from '../src/index';
+
+describe('Conversation memory', () => {
+  it('should window by message count and token budget', () => {
+    const memory = new ConversationMemory({ maxMessages: 3 })
+      .user('one')
+      .assistant('two', [{ id: 'c1', name: 'search', arguments: '{}' }])
+      .tool('three', 'c1')
+      .user('four')
+      .assistant('five');
+
+    // The tool result lost its call, so it is left out too
+    expect(memory.recent().map(m => m.content)).toEqual(['four', 'five']);
+    expect(memory.overflow().map(m => m.content)).toEqual([
+      'one',
+      'two',
+      'three',
+    ]);
+
+    memory.window = { maxTokens: 3 };
+    memory.user('a'.repeat(8));
+    expect(memory.recent().map(m => m.content)).toEqual(['five', 'aaaaaaaa']);
+  });
+
+  it('should fold overflowing messages into a summary', () => {
+    const memory = new ConversationMemory({ maxMessages: 2 })
+      .user('Hi, I am Ada')
+      .assistant('Hello Ada')
+      .user('What is 2 + 2?')
+      .assistant('4');
+
+    memory.summarize('Ada introduced herself.');
+
+    expect(memory.all().map(m => m.content)).toEqual(['What is 2 + 2?', '4']);
+    expect(memory.recent()[0]).toEqual({
+      role: 'system',
+      content: 'Summary of the earlier conversation: Ada introduced herself.',
+    });
+    expect(memory.overflow()).toEqual([]);
+  });
+
+  it('should survive checkpoints as JSON', async () => {
+    class ChatNode extends AsyncNode {
+      async postAsync(shared: SharedStore): Promise<string> {
+        const memory = ConversationMemory.of(shared);
+        memory.user(`message ${memory.all().length + 1}`);
+        return 'default';
+      }
+    }
+
+    const first = new ChatNode();
+    first.next(new ChatNode());
+    const flow = new AsyncFlow(first);
+    const store = new MemoryCheckpointStore();
+    flow.setCheckpointStore(store);
+    const shared: SharedStore = {
+      memory: new ConversationMemory({ maxMessages: 5 }),
+    };
+
+    await flow.runAsync(shared, { runId: 'chat' });
+    const restored: SharedStore = {};
+    Object.assign(restored, store.load('chat')!.shared);
+    const memory = ConversationMemory.of(restored);
+
+    expect(memory).toBeInstanceOf(ConversationMemory);
+    expect(memory.window).toEqual({ maxMessages: 5 });
+    expect(memory.all().map(m => m.content)).toEqual([
+      'message 1',
+      'message 2',
+    ]);
+    expect(restored.memory).toBe(memory);
+  });
+
+  it('should summarize with a node and send history with LLM nodes', async () => {
+    const client = new MockLLMClient([
+      'The user asked about tea.',
+      'Green tea.',
+    ]);
+    const memory = new ConversationMemory({ maxMessages: 2 })
+      .user('Tell me about tea')
+      .assistant('Tea is a drink.')
+      .user('Which has less caffeine?')
+      .assistant('Green or black?');
+    const summarize = new SummarizeMemoryNode({ client });
+    summarize.next(
+      new AsyncLLMNode({
+        client,
+        prompt: '{{question}}',
+        memory: 'memory',
+        output: 'answer',
+      })
+    );
+    const shared: SharedStore = { memory, question: 'The lighter one' };
+
+    await new AsyncFlow(summarize).runAsync(shared);
+
+    expect(client.requests[0].messages[1].content).toBe(
+      'Conversation:\nuser: Tell me about tea\nassistant: Tea is a drink.'
+    );
+    expect(memory.summary).toBe('The user asked about tea.');
+    expect(client.requests[1].messages.map(m => m.content)).toEqual([
+      'Summary of the earlier conversation: The user asked about tea.',
+      'Which has less caffeine?',
+      'Green or black?',
+      'The lighter one',
+    ]);
+    expect(shared.answer).toBe('Green tea.');
+  });
+
+  it('should record each turn of LLM nodes in the memory', async () => {
+    const client = new MockLLMClient(['Hi Ada.', 'You are Ada.', 'Ada.']);
+    const answer = new AsyncLLMNode({
+      client,
+      prompt: '{{question}}',
+      memory: 'memory',
+    });
+    const flow = new AsyncFlow(answer);
+    const shared: SharedStore = { question: 'I am Ada' };
+
+    await flow.runAsync(shared);
+    shared.question = 'Who am I?';
+    await flow.runAsync(shared);
+    new LLMNode({ client, prompt: 'Name?', memory: 'memory' }).run(shared);
+
+    expect(client.requests[1].messages.map(m => m.content)).toEqual([
+      'I am Ada',
+      'Hi Ada.',
+      'Who am I?',
+    ]);
+    expect(shared.memory.all()).toEqual([
+      { role: 'user', content: 'I am Ada' },
+      { role: 'assistant', content: 'Hi Ada.' },
+      { role: 'user', content: 'Who am I?' },
+      { role: 'assistant', content: 'You are Ada.' },
+      { role: 'user', content: 'Name?' },
+      { role: 'assistant', content: 'Ada.' },
+    ]);
+  });
+});
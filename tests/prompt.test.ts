@@ -0,0 +1,166 @@
+import {
+  Node,
+  Flow,
+  AsyncFlow,
+  SharedStore,
+  LLMNode,
+  AsyncLLMNode,
+  MockLLMClient,
+  OutputParseError,
+  parseOutput,
+  renderTemplate,
+} from '../src/index';
+
+describe('Prompt templates and structured output', () => {
+  it('should render shared store keys into templates', () => {
+    expect(
+      renderTemplate('Q: {{ question }} ({{user.name}}, {{tags}})', {
+        question: 'Why?',
+        user: { name: 'Ada' },
+        tags: ['a', 'b'],
+      })
+    ).toBe('Q: Why? (Ada, ["a","b"])');
+    expect(() => renderTemplate('{{missing}}', {})).toThrow(
+      "Prompt template references missing key 'missing'"
+    );
+  });
+
+  it('should parse fenced replies and check them against the schema', () => {
+    const schema = { action: ['search', 'answer'], query: 'string' } as const;
+
+    expect(
+      parseOutput(
+        'Sure!\n```json\n{"action": "search", "query": "tea"}\n```',
+        'json',
+        undefined,
+        schema
+      )
+    ).toEqual({ action: 'search', query: 'tea' });
+
+    let error: OutputParseError | undefined;
+    try {
+      parseOutput(
+        '{"action": "browse", "query": 1}',
+        'json',
+        undefined,
+        schema
+      );
+    } catch (e) {
+      error = e as OutputParseError;
+    }
+    expect(error).toBeInstanceOf(OutputParseError);
+    expect(error!.problems).toEqual([
+      "'action' should be one of search, answer",
+      "'query' should be a string, got number",
+    ]);
+    expect(() => parseOutput('not json', 'json')).toThrow(
+      'Could not parse model output: not valid JSON'
+    );
+  });
+
+  it('should accept another parser such as YAML', () => {
+    const parse = jest.fn(() => ({ action: 'answer' }));
+
+    const value = parseOutput('```yaml\naction: answer\n```', 'yaml', parse);
+
+    expect(parse).toHaveBeenCalledWith('action: answer');
+    expect(value).toEqual({ action: 'answer' });
+  });
+
+  it('should refuse YAML without a parser', () => {
+    expect(() => parseOutput('action: answer', 'yaml')).toThrow(
+      "Format 'yaml' needs a parse function"
+    );
+  });
+});
+
+describe('LLM nodes', () => {
+  class SearchNode extends Node {
+    post(shared: SharedStore): string {
+      shared.searched = shared.decision.query;
+      return 'default';
+    }
+  }
+
+  it('should ask again when the reply does not parse and route by a field', () => {
+    const client = new MockLLMClient([
+      'I think we should search.',
+      '```json\n{"action": "search", "query": "quantum computing"}\n```',
+    ]);
+    const decide = new LLMNode({
+      client,
+      system: 'You are a research agent.',
+      prompt: 'Question: {{question}}',
+      format: 'json',
+      schema: { action: ['search', 'answer'], query: 'string' },
+      output: 'decision',
+      actionField: 'action',
+    });
+    decide.next(new SearchNode(), 'search');
+    const shared: SharedStore = { question: 'What is new in quantum?' };
+
+    new Flow(decide).run(shared);
+
+    expect(shared.searched).toBe('quantum computing');
+    const [first, second] = client.requests;
+    expect(first.messages[0]).toEqual({
+      role: 'system',
+      content: 'You are a research agent.',
+    });
+    expect(first.messages[1].content).toContain(
+      'Question: What is new in quantum?'
+    );
+    expect(first.messages[1].content).toContain(
+      '- action: one of search, answer'
+    );
+    expect(second.messages.slice(2)).toEqual([
+      { role: 'assistant', content: 'I think we should search.' },
+      {
+        role: 'user',
+        content: expect.stringContaining('Your reply could not be used'),
+      },
+    ]);
+  });
+
+  it('should give up after the configured attempts', async () => {
+    const client = new MockLLMClient(() => 'no JSON here');
+    const node = new AsyncLLMNode({
+      client,
+      prompt: 'Summarize {{text}}',
+      format: 'json',
+      retry: 2,
+    });
+
+    await expect(
+      new AsyncFlow(node).runAsync({ text: 'a long story' })
+    ).rejects.toBeInstanceOf(OutputParseError);
+    expect(client.requests).toHaveLength(2);
+  });
+
+  it('should not be created for YAML without a parser', () => {
+    const client = new MockLLMClient(['action: answer']);
+
+    expect(() => new LLMNode({ client, prompt: 'Hi', format: 'yaml' })).toThrow(
+      "Format 'yaml' needs a parse function"
+    );
+    expect(
+      () => new AsyncLLMNode({ client, prompt: 'Hi', format: 'yaml' })
+    ).toThrow("Format 'yaml' needs a parse function");
+    expect(client.requests).toHaveLength(0);
+  });
+
+  it('should hand plain text replies through', async () => {
+    const node = new AsyncLLMNode({
+      client: new MockLLMClient(['Paris']),
+      prompt: 'Capital of {{country}}?',
+      temperature: 0,
+      output: 'answer',
+    });
+    const shared: SharedStore = { country: 'France' };
+
+    const action = await new AsyncFlow(node).runAsync(shared);
+
+    expect(action).toBe('default');
+    expect(shared.answer).toBe('Paris');
+  });
+});
@@ -0,0 +1,116 @@
+import { Node, Flow, AsyncNode, AsyncFlow, SharedStore } from '../src/index';
+
+describe('Run results', () => {
+  class FlakyNode extends Node {
+    exec(prepRes: unknown, attempt: number): string {
+      if (attempt < 2) {
+        throw new Error('flaky');
+      }
+      return 'ok';
+    }
+
+    post(): string {
+      return 'next';
+    }
+  }
+
+  class BrokenNode extends Node {
+    exec(): string {
+      throw new Error('broken');
+    }
+
+    execFallback(): string {
+      return 'recovered';
+    }
+  }
+
+  it('should report visited nodes, retries and recovered errors', () => {
+    const flaky = new FlakyNode(3);
+    const inner = new Flow(new BrokenNode(2));
+    inner.id = 'inner';
+    flaky.next(inner, 'next');
+    const flow = new Flow(flaky);
+
+    const result = flow.execute({});
+
+    expect(result.action).toBe('default');
+    expect(
+      result.nodes.map(({ nodeId, path, action, retries }) => ({
+        nodeId,
+        path,
+        action,
+        retries,
+      }))
+    ).toEqual([
+      { nodeId: 'FlakyNode', path: ['FlakyNode'], action: 'next', retries: 1 },
+      { nodeId: 'inner', path: ['inner'], action: 'default', retries: 0 },
+      {
+        nodeId: 'BrokenNode',
+        path: ['inner', 'BrokenNode'],
+        action: 'default',
+        retries: 1,
+      },
+    ]);
+    expect(result.retries).toBe(2);
+    expect(result.recovered).toEqual([
+      {
+        nodeId: 'BrokenNode',
+        path: ['inner', 'BrokenNode'],
+        error: new Error('broken'),
+        attempts: 2,
+      },
+    ]);
+    expect(result.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should time async nodes and stop listening afterwards', async () => {
+    class SlowNode extends AsyncNode {
+      async execAsync(): Promise<void> {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+
+      async postAsync(shared: SharedStore): Promise<string> {
+        shared.done = true;
+        return 'finished';
+      }
+    }
+
+    const flow = new AsyncFlow(new SlowNode());
+    const shared: SharedStore = {};
+
+    const result = await flow.executeAsync(shared);
+    const again = await flow.executeAsync({});
+
+    expect(result.action).toBe('finished');
+    expect(result.nodes).toHaveLength(1);
+    expect(result.nodes[0].durationMs).toBeGreaterThanOrEqual(15);
+    expect(result.durationMs).toBeGreaterThanOrEqual(
+      result.nodes[0].durationMs
+    );
+    expect(again.nodes).toHaveLength(1);
+    expect(shared.done).toBe(true);
+  });
+
+  it('should keep concurrent runs of one flow apart', async () => {
+    class FlakyAsyncNode extends AsyncNode {
+      async execAsync(prepRes: unknown, signal: AbortSignal, attempt: number) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        if (attempt < 2) {
+          throw new Error('flaky');
+        }
+      }
+    }
+
+    const flow = new AsyncFlow(new FlakyAsyncNode(2));
+
+    const [first, second] = await Promise.all([
+      flow.executeAsync({}),
+      flow.executeAsync({}),
+    ]);
+
+    for (const result of [first, second]) {
+      expect(result.nodes).toHaveLength(1);
+      expect(result.retries).toBe(1);
+    }
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  Node,
+  AsyncNode,
+  SharedStore,
+  RetryBudget,
+  retryDelay,
+} from '../src/index';
+
+describe('Retry policies', () => {
+  it('should compute fixed, exponential and capped delays', () => {
+    expect(retryDelay({ delayMs: 100 }, 3)).toBe(100);
+    expect(
+      [1, 2, 3, 4].map(attempt =>
+        retryDelay(
+          { delayMs: 100, backoff: 'exponential', maxDelayMs: 500 },
+          attempt
+        )
+      )
+    ).toEqual([100, 200, 400, 500]);
+    expect(
+      retryDelay({ delayMs: 100, backoff: 'exponential', factor: 3 }, 3)
+    ).toBe(900);
+
+    for (let i = 0; i < 20; i++) {
+      const delay = retryDelay({ delayMs: 100, jitter: true }, 1);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(100);
+    }
+  });
+
+  class FlakyNode extends Node {
+    attempts: number[] = [];
+
+    exec(prepRes: unknown, attempt: number): string {
+      this.attempts.push(attempt);
+      if (attempt < 3) {
+        throw new Error(attempt === 1 ? 'transient' : 'fatal');
+      }
+      return 'ok';
+    }
+
+    execFallback(): string {
+      return 'fallback';
+    }
+
+    post(shared: SharedStore, prepRes: unknown, execRes: string): string {
+      shared.result = execRes;
+      return 'default';
+    }
+  }
+
+  it('should pass the attempt number to exec and wait between attempts', () => {
+    const node = new FlakyNode({ maxAttempts: 3, delayMs: 20 });
+    const shared: SharedStore = {};
+
+    const start = Date.now();
+    node.run(shared);
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(35);
+    expect(node.attempts).toEqual([1, 2, 3]);
+    expect(shared.result).toBe('ok');
+  });
+
+  it('should only retry errors accepted by retryOn', () => {
+    const node = new FlakyNode({
+      maxAttempts: 5,
+      retryOn: error => error.message === 'transient',
+    });
+    const shared: SharedStore = {};
+
+    node.run(shared);
+
+    expect(node.attempts).toEqual([1, 2]);
+    expect(shared.result).toBe('fallback');
+  });
+
+  it('should share a retry budget between nodes', () => {
+    const budget = new RetryBudget(3);
+    const first = new FlakyNode({ maxAttempts: 3, budget });
+    const second = new FlakyNode({ maxAttempts: 3, budget });
+
+    first.run({});
+    second.run({});
+
+    expect(first.attempts).toEqual([1, 2, 3]);
+    expect(second.attempts).toEqual([1, 2]);
+    expect(budget.remaining).toBe(0);
+  });
+
+  it('should back off exponentially in async nodes', async () => {
+    const times: number[] = [];
+    class AsyncFlakyNode extends AsyncNode {
+      async execAsync(
+        prepRes: unknown,
+        signal: AbortSignal,
+        attempt: number
+      ): Promise<number> {
+        times.push(Date.now());
+        if (attempt < 3) {
+          throw new Error('flaky');
+        }
+        return attempt;
+      }
+    }
+
+    const node = new AsyncFlakyNode({
+      maxAttempts: 3,
+      delayMs: 20,
+      backoff: 'exponential',
+    });
+    await node.runAsync({});
+
+    expect(times).toHaveLength(3);
+    expect(times[1] - times[0]).toBeGreaterThanOrEqual(15);
+    expect(times[2] - times[1]).toBeGreaterThanOrEqual(35);
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  AsyncStreamNode,
+  AsyncFlow,
+  AsyncNode,
+  SharedStore,
+  StreamChunk,
+} from '../src/index';
+
+describe('Streaming', () => {
+  class AnswerNode extends AsyncStreamNode<SharedStore, void, string, string> {
+    async *execStream(): AsyncIterable<string> {
+      for (const token of ['Hello', ', ', 'world']) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        yield token;
+      }
+    }
+
+    async postAsync(
+      shared: SharedStore,
+      prepRes: void,
+      execRes: string
+    ): Promise<string> {
+      shared.answer = execRes;
+      return 'done';
+    }
+  }
+
+  it('should yield chunks as they arrive and aggregate them for post', async () => {
+    const flow = new AsyncFlow(new AnswerNode());
+    const shared: SharedStore = {};
+    const chunks: StreamChunk[] = [];
+
+    const stream = flow.stream(shared);
+    let next = await stream.next();
+    while (!next.done) {
+      // The answer is only stored once the stream completes
+      expect(shared.answer).toBeUndefined();
+      chunks.push(next.value);
+      next = await stream.next();
+    }
+
+    expect(chunks).toEqual([
+      { nodeId: 'AnswerNode', path: ['AnswerNode'], chunk: 'Hello' },
+      { nodeId: 'AnswerNode', path: ['AnswerNode'], chunk: ', ' },
+      { nodeId: 'AnswerNode', path: ['AnswerNode'], chunk: 'world' },
+    ]);
+    expect(next.value).toBe('done');
+    expect(shared.answer).toBe('Hello, world');
+  });
+
+  it('should stream nodes of nested flows and pass other nodes by', async () => {
+    class NumbersNode extends AsyncStreamNode<SharedStore, void, number> {
+      async *execStream(): AsyncIterable<number> {
+        yield 1;
+        yield 2;
+      }
+
+      async postAsync(
+        shared: SharedStore,
+        prepRes: void,
+        execRes: number[]
+      ): Promise<string> {
+        shared.numbers = execRes;
+        return 'default';
+      }
+    }
+
+    const inner = new AsyncFlow(new NumbersNode());
+    inner.id = 'inner';
+    const start = new AsyncNode();
+    start.next(inner);
+    const shared: SharedStore = {};
+
+    const chunks: StreamChunk[] = [];
+    for await (const chunk of new AsyncFlow(start).stream(shared)) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.map(c => [c.path, c.chunk])).toEqual([
+      [['inner', 'NumbersNode'], 1],
+      [['inner', 'NumbersNode'], 2],
+    ]);
+    expect(shared.numbers).toEqual([1, 2]);
+  });
+
+  it('should only yield the chunks of its own run', async () => {
+    class EchoNode extends AsyncStreamNode<SharedStore, string, string> {
+      async prepAsync(shared: SharedStore): Promise<string> {
+        return shared.word;
+      }
+
+      async *execStream(word: string): AsyncIterable<string> {
+        for (const n of [1, 2]) {
+          await new Promise(resolve => setTimeout(resolve, 5));
+          yield `${word} ${n}`;
+        }
+      }
+    }
+
+    const flow = new AsyncFlow(new EchoNode());
+    const collect = async (word: string) => {
+      const chunks: unknown[] = [];
+      for await (const chunk of flow.stream({ word })) {
+        chunks.push(chunk.chunk);
+      }
+      return chunks;
+    };
+
+    const [a, b] = await Promise.all([collect('a'), collect('b')]);
+
+    expect(a).toEqual(['a 1', 'a 2']);
+    expect(b).toEqual(['b 1', 'b 2']);
+  });
+
+  it('should abort the run when the consumer stops early', async () => {
+    const flow = new AsyncFlow(new AnswerNode());
+    const shared: SharedStore = {};
+
+    for await (const chunk of flow.stream(shared)) {
+      expect(chunk.chunk).toBe('Hello');
+      break;
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(shared.answer).toBeUndefined();
+  });
+});
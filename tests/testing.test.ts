@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Node, Flow, AsyncNode, AsyncFlow, SharedStore } from '../src/index';
+import { runFlowForTest, stubNode } from '../src/testing';
+
+describe('Flow testing harness', () => {
+  class AskNode extends Node {
+    prep(shared: SharedStore): string {
+      return shared.question;
+    }
+
+    exec(question: string): string {
+      return `echo: ${question}`;
+    }
+
+    post(shared: SharedStore, prepRes: string, execRes: string): string {
+      shared.answer = execRes;
+      return 'answered';
+    }
+  }
+
+  class ReviewNode extends Node {
+    post(shared: SharedStore): string {
+      shared.reviews = (shared.reviews || 0) + 1;
+      return shared.reviews < 2 ? 'retry' : 'done';
+    }
+  }
+
+  function buildFlow(): Flow {
+    const review = new ReviewNode();
+    review.next(review, 'retry');
+    const inner = new Flow(review);
+    inner.id = 'review';
+    const ask = new AskNode();
+    ask.next(inner, 'answered');
+    return new Flow(ask);
+  }
+
+  it('should report the path, actions, node results and final store', async () => {
+    const result = await runFlowForTest(buildFlow(), { question: 'hi' });
+
+    expect(result.path).toEqual([
+      'AskNode',
+      'review',
+      'review/ReviewNode',
+      'review/ReviewNode',
+    ]);
+    expect(result.actions).toEqual(['answered', 'done', 'retry', 'done']);
+    expect(result.nodes[0]).toEqual({
+      id: 'AskNode',
+      prepRes: 'hi',
+      execRes: 'echo: hi',
+      action: 'answered',
+    });
+    expect(result.shared).toEqual({
+      question: 'hi',
+      answer: 'echo: hi',
+      reviews: 2,
+    });
+  });
+
+  it('should stub nodes until restored', async () => {
+    const flow = buildFlow();
+    const restoreAsk = stubNode(flow, 'AskNode', () => 'stubbed');
+    const restoreReview = stubNode(flow, 'review/ReviewNode', {
+      post: () => 'done',
+    });
+
+    const stubbed = await runFlowForTest(flow, { question: 'hi' });
+    restoreAsk();
+    restoreReview();
+    const real = await runFlowForTest(flow, { question: 'hi' });
+
+    expect(stubbed.shared.answer).toBe('stubbed');
+    expect(stubbed.path).toHaveLength(3);
+    expect(real.shared.answer).toBe('echo: hi');
+    expect(() => stubNode(flow, 'missing', () => null)).toThrow(
+      "No node 'missing' in flow"
+    );
+  });
+
+  it('should record exec results and replay them offline', async () => {
+    const calls: string[] = [];
+    class CallApiNode extends AsyncNode {
+      async execAsync(): Promise<string> {
+        calls.push(this.params.city);
+        return `sunny in ${this.params.city}`;
+      }
+
+      async postAsync(
+        shared: SharedStore,
+        prepRes: unknown,
+        execRes: string
+      ): Promise<string> {
+        shared.forecast = execRes;
+        return 'default';
+      }
+    }
+
+    const flow = new AsyncFlow(new CallApiNode());
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'zero-graph-'));
+    const fixture = path.join(dir, 'fixtures', 'forecast.json');
+    try {
+      flow.setParams({ city: 'Oslo' });
+      const recorded = await runFlowForTest(flow, {}, { fixture });
+      flow.setParams({ city: 'Lima' });
+      const replayed = await runFlowForTest(flow, {}, { fixture });
+
+      expect(calls).toEqual(['Oslo']);
+      expect(replayed.shared).toEqual(recorded.shared);
+      expect(JSON.parse(fs.readFileSync(fixture, 'utf8'))).toEqual({
+        CallApiNode: [{ execRes: 'sunny in Oslo' }],
+      });
+      await expect(
+        runFlowForTest(new AsyncFlow(new AsyncNode()), {}, { fixture })
+      ).rejects.toThrow("No recorded exec result for 'AsyncNode' (call 1)");
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
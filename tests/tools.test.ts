@@ -0,0 +1,159 @@
+import {
+  AsyncNode,
+  AsyncFlow,
+  SharedStore,
+  AgentNode,
+  MaxStepsExceededError,
+  MockLLMClient,
+  ToolRegistry,
+} from '../src/index';
+
+describe('Tools and agents', () => {
+  const tools = new ToolRegistry()
+    .register({
+      name: 'search',
+      description: 'Searches the web',
+      parameters: {
+        type: 'object',
+        properties: { query: { type: 'string' } },
+        required: ['query'],
+      },
+      handler: async ({ query }: { query: string }) => [`result for ${query}`],
+    })
+    .register({
+      name: 'fail',
+      parameters: { type: 'object' },
+      handler: () => {
+        throw new Error('service down');
+      },
+    });
+
+  function call(id: string, name: string, args: object) {
+    return { id, name, arguments: JSON.stringify(args) };
+  }
+
+  it('should describe and call registered tools', async () => {
+    expect(tools.specs().map(spec => spec.name)).toEqual(['search', 'fail']);
+    expect(tools.specs()[0]).not.toHaveProperty('handler');
+    await expect(
+      tools.call(call('1', 'search', { query: 'tea' }))
+    ).resolves.toBe('["result for tea"]');
+    await expect(tools.call(call('2', 'search', {}))).rejects.toThrow(
+      "Missing arguments for 'search': query"
+    );
+    await expect(tools.call(call('3', 'browse', {}))).rejects.toThrow(
+      "Unknown tool 'browse'"
+    );
+    for (const args of ['null', '42', '["tea"]']) {
+      await expect(
+        tools.call({ id: '4', name: 'search', arguments: args })
+      ).rejects.toThrow("Arguments for 'search' must be a JSON object");
+    }
+  });
+
+  it('should loop through tool calls until the model answers', async () => {
+    class ReportNode extends AsyncNode {
+      async postAsync(shared: SharedStore): Promise<string> {
+        shared.reported = true;
+        return 'default';
+      }
+    }
+
+    const client = new MockLLMClient([
+      {
+        toolCalls: [
+          call('1', 'search', { query: 'quantum' }),
+          call('2', 'fail', {}),
+        ],
+      },
+      'Quantum computers got better.',
+    ]);
+    const agent = new AgentNode({
+      client,
+      tools,
+      system: 'You are a research agent.',
+      prompt: 'Question: {{question}}',
+    });
+    agent.next(new ReportNode(), 'answer');
+    const shared: SharedStore = { question: 'What is new in quantum?' };
+
+    await new AsyncFlow(agent).runAsync(shared);
+
+    expect(shared.answer).toBe('Quantum computers got better.');
+    expect(shared.agentSteps).toEqual([
+      {
+        tool: 'search',
+        arguments: '{"query":"quantum"}',
+        observation: '["result for quantum"]',
+      },
+      {
+        tool: 'fail',
+        arguments: '{}',
+        observation: 'Error: service down',
+        failed: true,
+      },
+    ]);
+    expect(shared.reported).toBe(true);
+
+    const second = client.requests[1];
+    expect(second.tools).toEqual(tools.specs());
+    expect(second.messages.map(message => message.role)).toEqual([
+      'system',
+      'user',
+      'assistant',
+      'tool',
+      'tool',
+    ]);
+    expect(second.messages[3]).toMatchObject({
+      toolCallId: '1',
+      content: '["result for quantum"]',
+    });
+  });
+
+  it('should record the question and answer in the memory', async () => {
+    const client = new MockLLMClient([
+      { toolCalls: [call('1', 'search', { query: 'tea' })] },
+      'Green tea.',
+    ]);
+    const agent = new AgentNode({
+      client,
+      tools,
+      prompt: '{{question}}',
+      memory: 'memory',
+    });
+    const shared: SharedStore = { question: 'Which tea is lighter?' };
+
+    await new AsyncFlow(agent).runAsync(shared);
+
+    expect(shared.memory.all()).toEqual([
+      { role: 'user', content: 'Which tea is lighter?' },
+      { role: 'assistant', content: 'Green tea.' },
+    ]);
+  });
+
+  it('should stop after maxSteps', async () => {
+    const client = new MockLLMClient(() => ({
+      toolCalls: [call('1', 'search', { query: 'more' })],
+    }));
+    const agent = new AgentNode({
+      client,
+      tools,
+      prompt: 'Keep searching',
+      maxSteps: 3,
+    });
+
+    const run = new AsyncFlow(agent).runAsync({});
+
+    await expect(run).rejects.toBeInstanceOf(MaxStepsExceededError);
+    await expect(run).rejects.toMatchObject({
+      nodeId: 'AgentNode',
+      path: ['search', 'search', 'search'],
+      steps: [
+        { tool: 'search', observation: '["result for more"]' },
+        { tool: 'search', observation: '["result for more"]' },
+        { tool: 'search', observation: '["result for more"]' },
+      ],
+    });
+    expect(client.requests).toHaveLength(3);
+  });
+});
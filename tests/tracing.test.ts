@@ -0,0 +1,124 @@
+import {
+  Node,
+  Flow,
+  AsyncNode,
+  AsyncFlow,
+  AsyncParallelBatchFlow,
+  SharedStore,
+  InMemoryTracer,
+  SpanStatusCode,
+  traceFlow,
+} from '../src/index';
+
+describe('Tracing', () => {
+  class FlakyNode extends Node {
+    private calls = 0;
+
+    constructor() {
+      super(2);
+    }
+
+    exec(): string {
+      if (++this.calls === 1) {
+        throw new Error('flaky');
+      }
+      return 'ok';
+    }
+
+    post(): string {
+      return 'next';
+    }
+  }
+
+  class BrokenNode extends Node {
+    exec(): string {
+      throw new Error('broken');
+    }
+  }
+
+  it('should emit a flow span with a child span per node', () => {
+    const flaky = new FlakyNode();
+    flaky.next(new Node(), 'next');
+    const flow = new Flow(flaky);
+    const tracer = new InMemoryTracer();
+    traceFlow(flow, tracer);
+
+    flow.run({});
+
+    const [flowSpan, flakySpan, nodeSpan] = tracer.spans;
+    expect(tracer.spans.map(span => span.name)).toEqual([
+      'flow Flow',
+      'node FlakyNode',
+      'node Node',
+    ]);
+    expect(flakySpan.parent).toBe(flowSpan);
+    expect(nodeSpan.parent).toBe(flowSpan);
+    expect(flakySpan.attributes['zerograph.action']).toBe('next');
+    expect(flakySpan.events).toEqual([
+      expect.objectContaining({
+        name: 'exec.retry',
+        attributes: expect.objectContaining({ 'zerograph.attempt': 1 }),
+      }),
+    ]);
+    expect(tracer.spans.every(span => span.endTime !== undefined)).toBe(true);
+    expect(flowSpan.status.code).toBe(SpanStatusCode.OK);
+  });
+
+  it('should record exceptions on failing nodes and flows', () => {
+    const flow = new Flow(new BrokenNode());
+    const tracer = new InMemoryTracer();
+    traceFlow(flow, tracer);
+
+    expect(() => flow.run({})).toThrow('broken');
+
+    for (const span of tracer.spans) {
+      expect(span.status).toEqual({
+        code: SpanStatusCode.ERROR,
+        message: 'broken',
+      });
+      expect(span.exceptions[0].message).toBe('broken');
+    }
+  });
+
+  it('should nest spans of nested and parallel flows', async () => {
+    class WorkNode extends AsyncNode {
+      async execAsync(): Promise<void> {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+
+      async postAsync(shared: SharedStore): Promise<string> {
+        shared.done = (shared.done || 0) + 1;
+        return 'default';
+      }
+    }
+
+    class ItemsFlow extends AsyncParallelBatchFlow {
+      async prepAsync(): Promise<Record<string, any>[]> {
+        return [{ item: 1 }, { item: 2 }];
+      }
+    }
+
+    const items = new ItemsFlow(new WorkNode());
+    const flow = new AsyncFlow(items);
+    const tracer = new InMemoryTracer();
+    const stop = traceFlow(flow, tracer);
+
+    const shared: SharedStore = {};
+    await flow.runAsync(shared);
+    stop();
+    await flow.runAsync(shared);
+
+    const [root, itemsNode, itemsFlow, ...work] = tracer.spans;
+    expect(tracer.spans).toHaveLength(5);
+    expect(itemsNode.parent).toBe(root);
+    expect(itemsFlow.name).toBe('flow ItemsFlow');
+    expect(itemsFlow.parent).toBe(itemsNode);
+    expect(work.map(span => span.parent)).toEqual([itemsFlow, itemsFlow]);
+    expect(work.map(span => span.attributes['zerograph.path'])).toEqual([
+      ['ItemsFlow', 'WorkNode'],
+      ['ItemsFlow', 'WorkNode'],
+    ]);
+    expect(work.every(span => span.endTime! >= span.startTime + 4)).toBe(true);
+    expect(shared.done).toBe(4);
+  });
+});
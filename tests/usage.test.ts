@@ -0,0 +1,131 @@
+import {
+  AsyncNode,
+  AsyncFlow,
+  AsyncLLMNode,
+  SharedStore,
+  BudgetExceededError,
+  MockLLMClient,
+  UsageMeter,
+  usageCost,
+} from '../src/index';
+
+describe('Usage accounting', () => {
+  const pricing = {
+    small: { prompt: 1, completion: 2 },
+    large: { prompt: 10, completion: 30 },
+  };
+
+  it('should price usage and add it up by node and model', () => {
+    const meter = new UsageMeter(pricing);
+    const report = {
+      promptTokens: 1_000_000,
+      completionTokens: 500_000,
+      totalTokens: 1_500_000,
+    };
+
+    expect(usageCost({ ...report, model: 'large' }, pricing)).toBe(25);
+    expect(usageCost({ ...report, model: 'unknown' }, pricing)).toBe(0);
+
+    meter.add(['a'], { ...report, model: 'small' });
+    meter.add(['sub', 'b'], { ...report, model: 'large' });
+    meter.add(['a'], { ...report, model: 'small' });
+
+    const summary = meter.summary();
+    expect(summary.total).toEqual({
+      calls: 3,
+      promptTokens: 3_000_000,
+      completionTokens: 1_500_000,
+      totalTokens: 4_500_000,
+      cost: 29,
+    });
+    expect(summary.byNode.a.cost).toBe(4);
+    expect(summary.byNode['sub/b'].calls).toBe(1);
+    expect(summary.byModel.large.cost).toBe(25);
+  });
+
+  function answerNode(client: MockLLMClient, model: string): AsyncLLMNode {
+    const node = new AsyncLLMNode({ client, model, prompt: '{{question}}' });
+    node.id = model;
+    return node;
+  }
+
+  it('should report the usage of LLM nodes in run results', async () => {
+    const client = new MockLLMClient(() => 'a'.repeat(40));
+    const first = answerNode(client, 'small');
+    first.next(answerNode(client, 'large'));
+    const flow = new AsyncFlow(first);
+    flow.setPricing(pricing);
+
+    const result = await flow.executeAsync({ question: 'a'.repeat(80) });
+
+    expect(result.usage.total).toMatchObject({
+      calls: 2,
+      promptTokens: 40,
+      completionTokens: 20,
+      totalTokens: 60,
+    });
+    expect(result.usage.byNode.small.cost).toBeCloseTo(40 / 1_000_000);
+    expect(result.usage.byModel.large.totalTokens).toBe(30);
+  });
+
+  it('should stop a run that goes over its budget', async () => {
+    const calls: number[] = [];
+    class ChattyNode extends AsyncNode {
+      async execAsync(): Promise<void> {
+        calls.push(calls.length);
+        this.reportUsage(
+          { promptTokens: 400, completionTokens: 100, totalTokens: 500 },
+          'large'
+        );
+      }
+
+      async postAsync(): Promise<string> {
+        return 'again';
+      }
+    }
+
+    const node = new ChattyNode();
+    node.next(node, 'again');
+    const flow = new AsyncFlow(node);
+    flow.setPricing(pricing);
+    flow.setBudget({ maxTokens: 1200 });
+
+    const error = await flow.runAsync({}).catch(e => e);
+
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error).toMatchObject({
+      nodeId: 'ChattyNode',
+      limit: 'maxTokens',
+      max: 1200,
+      used: 1500,
+    });
+    expect(calls).toHaveLength(3);
+
+    calls.length = 0;
+    flow.setBudget({ maxCost: 0.01 });
+    await expect(flow.runAsync({} as SharedStore)).rejects.toMatchObject({
+      limit: 'maxCost',
+    });
+    expect(calls).toHaveLength(2);
+  });
+
+  it('should keep a separate budget for each run', async () => {
+    class ThinkNode extends AsyncNode {
+      async execAsync(): Promise<void> {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        this.reportUsage({
+          promptTokens: 40,
+          completionTokens: 20,
+          totalTokens: 60,
+        });
+      }
+    }
+
+    const flow = new AsyncFlow(new ThinkNode());
+    flow.setBudget({ maxTokens: 100 });
+
+    await expect(
+      Promise.all([flow.runAsync({}), flow.runAsync({})])
+    ).resolves.toHaveLength(2);
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  Node,
+  Flow,
+  AsyncNode,
+  AsyncFlow,
+  FlowValidationError,
+  validateFlow,
+} from '../src/index';
+
+describe('Flow validation', () => {
+  class RouteNode extends Node {
+    static actions = ['search', 'answer'];
+  }
+
+  it('should report no diagnostics for a sound flow', () => {
+    const route = new RouteNode();
+    route.next(new Node(), 'search');
+    route.next(new Node(), 'answer');
+
+    expect(validateFlow(new Flow(route))).toEqual([]);
+  });
+
+  it('should report unhandled actions and dangling successors', () => {
+    const route = new RouteNode();
+    route.next(new Node(), 'search');
+    route.next(new Node(), 'retry');
+
+    expect(validateFlow(new Flow(route))).toEqual([
+      expect.objectContaining({
+        severity: 'warning',
+        code: 'dangling-successor',
+        path: ['RouteNode'],
+        action: 'retry',
+      }),
+      expect.objectContaining({
+        severity: 'warning',
+        code: 'unhandled-action',
+        path: ['RouteNode'],
+        action: 'answer',
+      }),
+    ]);
+  });
+
+  it('should report nodes never reached from the start node', () => {
+    const intro = new Node();
+    intro.id = 'intro';
+    const main = new Node();
+    intro.next(main);
+
+    const diagnostics = validateFlow(new Flow(main));
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        severity: 'warning',
+        code: 'unreachable-node',
+        path: ['intro'],
+      }),
+    ]);
+  });
+
+  it('should report async nodes inside sync flows, nested ones included', () => {
+    const inner = new Flow(new AsyncNode());
+    inner.id = 'inner';
+    const flow = new AsyncFlow(inner);
+
+    expect(validateFlow(flow)).toEqual([
+      expect.objectContaining({
+        severity: 'error',
+        code: 'async-in-sync-flow',
+        path: ['inner', 'AsyncNode'],
+      }),
+    ]);
+    expect(validateFlow(new AsyncFlow(new Flow(new Node())))).toEqual([]);
+  });
+
+  it('should report flows without a start node and duplicate ids', () => {
+    const a = new Node();
+    const b = new Node();
+    a.id = b.id = 'same';
+    a.next(b);
+
+    expect(validateFlow(new Flow()).map(d => d.code)).toEqual([
+      'missing-start',
+    ]);
+    expect(validateFlow(new Flow(a))).toEqual([
+      expect.objectContaining({
+        severity: 'error',
+        code: 'duplicate-id',
+        message: "Duplicate node id 'same'",
+      }),
+    ]);
+  });
+
+  it('should refuse to run an invalid flow in strict mode', async () => {
+    const flow = new Flow(new AsyncNode());
+    flow.setStrict();
+
+    expect(() => flow.run({})).toThrow(FlowValidationError);
+    try {
+      flow.run({});
+    } catch (e) {
+      expect((e as FlowValidationError).diagnostics[0].code).toBe(
+        'async-in-sync-flow'
+      );
+    }
+
+    const asyncFlow = new AsyncFlow(new AsyncNode());
+    asyncFlow.setStrict();
+    await expect(asyncFlow.runAsync({})).resolves.toBe('default');
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  Node,
+  Flow,
+  BatchNode,
+  AsyncNode,
+  AsyncFlow,
+  AsyncParallelBatchNode,
+  Parallel,
+  Join,
+  toMermaid,
+  toDot,
+} from '../src/index';
+
+describe('Graph export', () => {
+  class GetQuestionNode extends Node {}
+  class AnswerNode extends AsyncNode {}
+  class TranslateNode extends BatchNode {}
+  class FetchNode extends AsyncParallelBatchNode {}
+
+  function createQAFlow(): AsyncFlow {
+    const getQuestion = new GetQuestionNode();
+    const answer = new AnswerNode();
+    getQuestion.next(answer, 'answer');
+    answer.next(getQuestion, 'continue');
+    return new AsyncFlow(getQuestion);
+  }
+
+  it('should render a cyclic flow as Mermaid', () => {
+    expect(toMermaid(createQAFlow())).toBe(
+      [
+        'flowchart TB',
+        '  GetQuestionNode["GetQuestionNode"]',
+        '  AnswerNode(["AnswerNode"])',
+        '  GetQuestionNode -->|"answer"| AnswerNode',
+        '  AnswerNode -->|"continue"| GetQuestionNode',
+        '  classDef async stroke-dasharray: 5 5',
+        '  classDef batch fill:#eef3ff',
+        '  classDef parallel stroke-width:3px',
+        '  class AnswerNode async',
+      ].join('\n')
+    );
+  });
+
+  it('should draw nested flows as Mermaid subgraphs', () => {
+    const translate = new TranslateNode();
+    const fetch = new FetchNode();
+    const inner = new Flow(translate);
+    inner.id = 'Translation';
+    fetch.next(inner);
+    inner.next(new Node(), 'done');
+
+    const mermaid = toMermaid(new Flow(fetch), { direction: 'LR' });
+
+    expect(mermaid).toContain('flowchart LR');
+    expect(mermaid).toContain('  FetchNode[["FetchNode"]]');
+    expect(mermaid).toContain(
+      [
+        '  subgraph Translation ["Translation"]',
+        '    Translation__TranslateNode[["TranslateNode"]]',
+        '  end',
+      ].join('\n')
+    );
+    expect(mermaid).toContain('  FetchNode --> Translation');
+    expect(mermaid).toContain('  Translation -->|"done"| Node');
+    expect(mermaid).toContain('  class FetchNode async');
+    expect(mermaid).toContain(
+      '  class FetchNode,Translation__TranslateNode batch'
+    );
+    expect(mermaid).toContain('  class FetchNode parallel');
+  });
+
+  it('should mark Parallel and Join nodes as parallel', () => {
+    const fork = new Parallel();
+    const join = new Join();
+    fork.next(new AnswerNode(), 'a').next(join);
+    fork.next(new GetQuestionNode(), 'b').next(join);
+    const flow = new AsyncFlow(fork);
+
+    expect(toMermaid(flow)).toContain('  class Parallel,Join parallel');
+    expect(toDot(flow)).toContain(
+      '  "Join" [label="Join", style=dashed, peripheries=2];'
+    );
+  });
+
+  it('should keep nodes apart whose ids differ only in punctuation', () => {
+    const dashed = new Node();
+    dashed.id = 'fetch-data';
+    const underscored = new Node();
+    underscored.id = 'fetch_data';
+    dashed.next(underscored);
+    const flow = new Flow(dashed);
+
+    const mermaid = toMermaid(flow);
+    expect(mermaid).toContain('  fetch_data["fetch-data"]');
+    expect(mermaid).toContain('  fetch_data_2["fetch_data"]');
+    expect(mermaid).toContain('  fetch_data --> fetch_data_2');
+    expect(toDot(flow)).toContain('  "fetch_data" -> "fetch_data_2";');
+  });
+
+  it('should render DOT with clusters for nested flows', () => {
+    const qa = createQAFlow();
+    const start = new Node();
+    start.next(qa, 'chat');
+
+    expect(toDot(new Flow(start))).toBe(
+      [
+        'digraph "Flow" {',
+        '  compound=true;',
+        '  rankdir=TB;',
+        '  node [shape=box];',
+        '  "Node" [label="Node"];',
+        '  subgraph "cluster_AsyncFlow" {',
+        '    label="AsyncFlow (async)";',
+        '    "AsyncFlow__GetQuestionNode" [label="GetQuestionNode"];',
+        '    "AsyncFlow__AnswerNode" [label="AnswerNode", style=dashed];',
+        '    "AsyncFlow__GetQuestionNode" -> "AsyncFlow__AnswerNode" [label="answer"];',
+        '    "AsyncFlow__AnswerNode" -> "AsyncFlow__GetQuestionNode" [label="continue"];',
+        '  }',
+        '  "Node" -> "AsyncFlow__GetQuestionNode" [label="chat", lhead="cluster_AsyncFlow"];',
+        '}',
+      ].join('\n')
+    );
+  });
+});